@@ -0,0 +1,154 @@
+import * as vscode from 'vscode';
+
+export type ApiKeyProvider = 'groq' | 'gemini' | 'gpt';
+
+export const PROVIDER_NAMES: Record<ApiKeyProvider, string> = {
+    groq: 'Groq',
+    gemini: 'Gemini',
+    gpt: 'OpenAI'
+};
+
+// Display name of any provider id, including local providers that need no API key
+export function getProviderName(provider: string): string {
+    return (PROVIDER_NAMES as Record<string, string>)[provider] ?? (provider === 'ollama' ? 'Ollama' : provider);
+}
+
+export const SET_API_KEY_COMMANDS: Record<ApiKeyProvider, string> = {
+    groq: 'codesuggestion.setGroqApiKey',
+    gemini: 'codesuggestion.setGeminiApiKey',
+    gpt: 'codesuggestion.setGptApiKey'
+};
+
+//## API keys kept in VS Code's SecretStorage (never in settings.json)
+export class ApiKeyStore {
+    private static secrets: vscode.SecretStorage | undefined;
+    // Providers already nagged about a missing key this session; avoids a popup per keystroke
+    private static readonly prompted = new Set<ApiKeyProvider>();
+
+    static initialize(secrets: vscode.SecretStorage): void {
+        ApiKeyStore.secrets = secrets;
+    }
+
+    private static secretKey(provider: ApiKeyProvider): string {
+        return `codeAssistant.${provider}.apiKey`;
+    }
+
+    static async get(provider: ApiKeyProvider): Promise<string | undefined> {
+        return ApiKeyStore.secrets?.get(ApiKeyStore.secretKey(provider));
+    }
+
+    static async set(provider: ApiKeyProvider, apiKey: string): Promise<void> {
+        await ApiKeyStore.secrets?.store(ApiKeyStore.secretKey(provider), apiKey);
+        ApiKeyStore.prompted.delete(provider);
+    }
+
+    static async delete(provider: ApiKeyProvider): Promise<void> {
+        await ApiKeyStore.secrets?.delete(ApiKeyStore.secretKey(provider));
+    }
+
+    /**
+     * Returns the stored key, or shows (once per session) a warning offering to set it.
+     */
+    static async require(provider: ApiKeyProvider): Promise<string | undefined> {
+        const apiKey = await ApiKeyStore.get(provider);
+        if (!apiKey && !ApiKeyStore.prompted.has(provider)) {
+            ApiKeyStore.prompted.add(provider);
+            const action = `Set ${PROVIDER_NAMES[provider]} API Key`;
+            vscode.window.showWarningMessage(`${PROVIDER_NAMES[provider]} API key is not set.`, action).then(choice => {
+                if (choice === action) {
+                    vscode.commands.executeCommand(SET_API_KEY_COMMANDS[provider]);
+                }
+            });
+        }
+        return apiKey;
+    }
+
+    static missingKeyMessage(provider: ApiKeyProvider): string {
+        return `API key is not set. Run "AI: Set ${PROVIDER_NAMES[provider]} API Key" from the Command Palette.`;
+    }
+
+    static async promptAndStore(provider: ApiKeyProvider): Promise<void> {
+        const name = PROVIDER_NAMES[provider];
+        const apiKey = await vscode.window.showInputBox({
+            title: `Set ${name} API Key`,
+            prompt: `The key is kept in VS Code's secret storage. Leave empty to remove the stored ${name} key.`,
+            password: true,
+            ignoreFocusOut: true
+        });
+        if (apiKey === undefined) {
+            return;
+        }
+        if (apiKey.trim()) {
+            await ApiKeyStore.set(provider, apiKey.trim());
+            vscode.window.showInformationMessage(`${name} API key saved.`);
+        } else {
+            await ApiKeyStore.delete(provider);
+            vscode.window.showInformationMessage(`${name} API key removed.`);
+        }
+    }
+
+    /**
+     * Moves keys left in `codeAssistant.<provider>.apiKey` (workspace folder, workspace or user
+     * settings) into secret storage and clears them from settings. The most specific key is stored
+     * unless a secret exists already; keys that differ from the stored one are left in settings and
+     * reported, so that none is lost without the user knowing.
+     */
+    static async migrateFromSettings(): Promise<void> {
+        const migrated: string[] = [];
+        const conflicts: string[] = [];
+        for (const provider of Object.keys(PROVIDER_NAMES) as ApiKeyProvider[]) {
+            const section = `codeAssistant.${provider}`;
+            const config = vscode.workspace.getConfiguration(section);
+            const inspected = config.inspect<string>('apiKey');
+            // Most specific first
+            const scopes: { label: string; value: string | undefined; clear: () => Thenable<void> }[] = [
+                ...(vscode.workspace.workspaceFolders ?? []).map(folder => {
+                    const folderConfig = vscode.workspace.getConfiguration(section, folder.uri);
+                    return {
+                        label: `folder "${folder.name}"`,
+                        value: folderConfig.inspect<string>('apiKey')?.workspaceFolderValue,
+                        clear: () => folderConfig.update('apiKey', undefined, vscode.ConfigurationTarget.WorkspaceFolder)
+                    };
+                }),
+                { label: 'workspace', value: inspected?.workspaceValue, clear: () => config.update('apiKey', undefined, vscode.ConfigurationTarget.Workspace) },
+                { label: 'user settings', value: inspected?.globalValue, clear: () => config.update('apiKey', undefined, vscode.ConfigurationTarget.Global) }
+            ].filter(scope => scope.value !== undefined);
+            const plainKey = scopes.find(scope => scope.value)?.value;
+            if (!plainKey) {
+                continue;
+            }
+
+            let storedKey = await ApiKeyStore.get(provider);
+            if (!storedKey) {
+                storedKey = plainKey;
+                await ApiKeyStore.set(provider, storedKey);
+            }
+            const differing: string[] = [];
+            for (const scope of scopes) {
+                if (scope.value && scope.value !== storedKey) {
+                    differing.push(scope.label);
+                } else {
+                    await scope.clear();
+                }
+            }
+            if (differing.length < scopes.length) {
+                migrated.push(PROVIDER_NAMES[provider]);
+            }
+            if (differing.length > 0) {
+                conflicts.push(`${PROVIDER_NAMES[provider]} (${differing.join(', ')})`);
+            }
+        }
+
+        if (migrated.length > 0) {
+            vscode.window.showInformationMessage(
+                `Moved the ${migrated.join(', ')} API key${migrated.length > 1 ? 's' : ''} from settings.json to secure storage.`
+            );
+        }
+        if (conflicts.length > 0) {
+            vscode.window.showWarningMessage(
+                `Settings hold API keys that differ from the ones in secure storage, so they were left in place: ${conflicts.join('; ')}. ` +
+                'Run "AI: Set ... API Key" to store the right key, then remove the others from settings.json.'
+            );
+        }
+    }
+}
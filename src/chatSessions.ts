@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import { ChatMessage } from './providers';
+
+export interface ChatSession {
+    id: string;
+    title: string;
+    createdAt: number;
+    updatedAt: number;
+    provider: string;
+    model: string;
+    messages: ChatMessage[];
+}
+
+export function createChatSession(provider: string, model: string): ChatSession {
+    const now = Date.now();
+    return {
+        id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        title: 'New Chat',
+        createdAt: now,
+        updatedAt: now,
+        provider,
+        model,
+        messages: []
+    };
+}
+
+// Titles come from the opening question, cut to something that fits a quick pick row
+export function titleFromPrompt(prompt: string): string {
+    const firstLine = prompt.trim().split('\n')[0];
+    return firstLine.length > 60 ? `${firstLine.slice(0, 57)}...` : firstLine;
+}
+
+//## Chat session persistence (stored per workspace)
+export class ChatSessionStore {
+    private static readonly storageKey = 'codeAssistant.chatSessions';
+
+    constructor(private readonly state: vscode.Memento) {}
+
+    list(): ChatSession[] {
+        return [...this.read()].sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    get(id: string): ChatSession | undefined {
+        return this.read().find(session => session.id === id);
+    }
+
+    async save(session: ChatSession): Promise<void> {
+        const sessions = this.read().filter(s => s.id !== session.id);
+        sessions.push(session);
+        await this.state.update(ChatSessionStore.storageKey, sessions);
+    }
+
+    async rename(id: string, title: string): Promise<void> {
+        const session = this.get(id);
+        if (session) {
+            await this.save({ ...session, title });
+        }
+    }
+
+    async delete(id: string): Promise<void> {
+        await this.state.update(
+            ChatSessionStore.storageKey,
+            this.read().filter(session => session.id !== id)
+        );
+    }
+
+    private read(): ChatSession[] {
+        return this.state.get<ChatSession[]>(ChatSessionStore.storageKey, []);
+    }
+}
+
+//## Session browser (quick pick with search, rename and delete)
+interface SessionPickItem extends vscode.QuickPickItem {
+    session: ChatSession;
+}
+
+const renameButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('edit'), tooltip: 'Rename Session' };
+const deleteButton: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('trash'), tooltip: 'Delete Session' };
+
+function toPickItem(session: ChatSession): SessionPickItem {
+    const turns = session.messages.filter(m => m.role === 'user').length;
+    return {
+        label: session.title,
+        description: new Date(session.updatedAt).toLocaleString(),
+        detail: `${session.provider} · ${session.model} · ${turns} question${turns === 1 ? '' : 's'}`,
+        buttons: [renameButton, deleteButton],
+        session
+    };
+}
+
+/**
+ * Lets the user search past sessions (titles and message text), rename or delete them,
+ * and resolves with the session picked for reopening.
+ */
+export function browseChatSessions(store: ChatSessionStore): Promise<ChatSession | undefined> {
+    return new Promise(resolve => {
+        const quickPick = vscode.window.createQuickPick<SessionPickItem>();
+        quickPick.placeholder = 'Search chat sessions by title or content';
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+        // Set while the picker is hidden to show the rename box, so hiding does not settle the promise
+        let renaming = false;
+
+        const refresh = () => {
+            const query = quickPick.value.trim().toLowerCase();
+            quickPick.items = store.list().map(session => {
+                const item = toPickItem(session);
+                // Sessions whose messages match are shown even when the title does not
+                item.alwaysShow = query.length > 0
+                    && session.messages.some(m => m.content.toLowerCase().includes(query));
+                return item;
+            });
+        };
+
+        quickPick.onDidChangeValue(refresh);
+        quickPick.onDidTriggerItemButton(async ({ button, item }) => {
+            if (button === renameButton) {
+                renaming = true;
+                quickPick.hide();
+                const title = await vscode.window.showInputBox({
+                    prompt: 'Rename chat session',
+                    value: item.session.title,
+                    validateInput: value => value.trim() ? undefined : 'The title cannot be empty.'
+                });
+                if (title) {
+                    await store.rename(item.session.id, title.trim());
+                }
+                resolve(await browseChatSessions(store));
+            } else if (button === deleteButton) {
+                await store.delete(item.session.id);
+                refresh();
+            }
+        });
+        quickPick.onDidAccept(() => {
+            const [selected] = quickPick.selectedItems;
+            resolve(selected?.session);
+            quickPick.hide();
+        });
+        quickPick.onDidHide(() => {
+            if (!renaming) {
+                resolve(undefined);
+            }
+            quickPick.dispose();
+        });
+
+        refresh();
+        quickPick.show();
+    });
+}
@@ -0,0 +1,583 @@
+import * as vscode from 'vscode';
+import { DiagramResult } from './mermaid';
+import { getContentSecurityPolicy, getNonce, getVendorRoot, getVendorUri } from './webview';
+
+//## Webview that parses and renders Mermaid diagrams with the bundled Mermaid build
+export class DiagramPanel {
+    private readonly pendingValidations = new Map<number, (error: string | undefined) => void>();
+    private nextValidationId = 0;
+    private readonly ready: Promise<void>;
+    private disposed = false;
+    private source: string | undefined;
+    // Source ranges of the nodes, for the document the diagram was generated from
+    private linkedDocument: vscode.Uri | undefined;
+    private nodeRanges = new Map<string, vscode.Range>();
+    private readonly highlight = vscode.window.createTextEditorDecorationType({
+        backgroundColor: new vscode.ThemeColor('editor.rangeHighlightBackground'),
+        isWholeLine: true
+    });
+    private readonly disposables: vscode.Disposable[] = [];
+
+    private constructor(private readonly panel: vscode.WebviewPanel, extensionUri: vscode.Uri, private readonly title: string) {
+        let markReady: () => void = () => undefined;
+        this.ready = new Promise(resolve => markReady = resolve);
+
+        panel.webview.onDidReceiveMessage(async message => {
+            switch (message.command) {
+                case 'ready':
+                    markReady();
+                    break;
+                case 'validationResult':
+                    this.pendingValidations.get(message.id)?.(message.error);
+                    this.pendingValidations.delete(message.id);
+                    break;
+                case 'saveImage':
+                    if ((message.format === 'svg' || message.format === 'png') && typeof message.data === 'string') {
+                        await this.saveImage(message.format, message.data);
+                    }
+                    break;
+                case 'copySource':
+                    if (this.source !== undefined) {
+                        await vscode.env.clipboard.writeText(this.source);
+                        vscode.window.showInformationMessage('Mermaid source copied to the clipboard.');
+                    }
+                    break;
+                case 'insertIntoMarkdown':
+                    if (this.source !== undefined) {
+                        await insertIntoMarkdown(this.source);
+                    }
+                    break;
+                case 'revealNode':
+                    await this.revealNode(message.nodeId);
+                    break;
+            }
+        });
+        this.disposables.push(
+            this.highlight,
+            vscode.window.onDidChangeTextEditorSelection(event => this.highlightNodeAt(event.textEditor.document, event.selections[0].active))
+        );
+        panel.onDidDispose(() => {
+            this.disposed = true;
+            this.disposables.forEach(disposable => disposable.dispose());
+            // A panel closed before its page loaded never becomes ready; waiting callers go on and
+            // find it disposed
+            markReady();
+            // Nothing is left to parse with; callers check isDisposed before using the result
+            for (const resolve of this.pendingValidations.values()) {
+                resolve(undefined);
+            }
+            this.pendingValidations.clear();
+        });
+        panel.webview.html = getDiagramWebviewContent(panel.webview, extensionUri);
+    }
+
+    static create(extensionUri: vscode.Uri, title: string): DiagramPanel {
+        const panel = vscode.window.createWebviewPanel(
+            'workflowDiagram',
+            title,
+            vscode.ViewColumn.One,
+            { enableScripts: true, retainContextWhenHidden: true, localResourceRoots: [getVendorRoot(extensionUri)] }
+        );
+        return new DiagramPanel(panel, extensionUri, title);
+    }
+
+    get isDisposed(): boolean {
+        return this.disposed;
+    }
+
+    onDidDispose(listener: () => void): vscode.Disposable {
+        return this.panel.onDidDispose(listener);
+    }
+
+    // Runs Mermaid's own parser in the webview; resolves to the parse error, if any
+    async validate(source: string): Promise<string | undefined> {
+        await this.ready;
+        if (this.disposed) {
+            return undefined;
+        }
+        const id = this.nextValidationId++;
+        return new Promise(resolve => {
+            this.pendingValidations.set(id, resolve);
+            this.panel.webview.postMessage({ command: 'validateDiagram', id, source });
+        });
+    }
+
+    /**
+     * Ties nodes to the lines of `document` they stand for (1-based, as written by the model).
+     * Call before render(); ranges outside the document are dropped.
+     */
+    linkNodes(document: vscode.TextDocument, nodeLines: Map<string, { start: number; end: number }>): void {
+        this.linkedDocument = document.uri;
+        this.nodeRanges = new Map();
+        for (const [nodeId, { start, end }] of nodeLines) {
+            if (start >= 1 && start <= document.lineCount) {
+                const last = document.lineAt(Math.min(end, document.lineCount) - 1);
+                this.nodeRanges.set(nodeId, new vscode.Range(start - 1, 0, last.lineNumber, last.range.end.character));
+            }
+        }
+    }
+
+    async render(result: DiagramResult): Promise<void> {
+        await this.ready;
+        if (this.disposed) {
+            return;
+        }
+        this.source = result.source;
+        this.panel.webview.postMessage({ command: 'renderDiagram', title: this.title, linkedNodes: [...this.nodeRanges.keys()], ...result });
+        const editor = vscode.window.visibleTextEditors.find(editor => editor.document.uri.toString() === this.linkedDocument?.toString());
+        if (editor) {
+            this.highlightNodeAt(editor.document, editor.selection.active);
+        }
+    }
+
+    dispose(): void {
+        this.panel.dispose();
+    }
+
+    private async revealNode(nodeId: string): Promise<void> {
+        const range = this.nodeRanges.get(nodeId);
+        if (!range || !this.linkedDocument) {
+            return;
+        }
+        const visible = vscode.window.visibleTextEditors.find(editor => editor.document.uri.toString() === this.linkedDocument?.toString());
+        const document = visible?.document ?? await vscode.workspace.openTextDocument(this.linkedDocument);
+        // Keep the focus in the diagram so the next node can be clicked right away
+        const editor = await vscode.window.showTextDocument(document, {
+            viewColumn: visible?.viewColumn ?? vscode.ViewColumn.Beside,
+            preserveFocus: true,
+            selection: new vscode.Range(range.start, range.start)
+        });
+        editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+        editor.setDecorations(this.highlight, [range]);
+    }
+
+    // Highlights the innermost node whose lines contain `position`
+    private highlightNodeAt(document: vscode.TextDocument, position: vscode.Position): void {
+        if (this.disposed || document.uri.toString() !== this.linkedDocument?.toString()) {
+            return;
+        }
+        let match: [string, vscode.Range] | undefined;
+        for (const entry of this.nodeRanges) {
+            const lines = entry[1].end.line - entry[1].start.line;
+            if (entry[1].start.line <= position.line && position.line <= entry[1].end.line
+                && (!match || lines < match[1].end.line - match[1].start.line)) {
+                match = entry;
+            }
+        }
+        this.panel.webview.postMessage({ command: 'highlightNode', nodeId: match?.[0] ?? null });
+    }
+
+    // `data` is the SVG markup, or the PNG bytes as base64
+    private async saveImage(format: 'svg' | 'png', data: string): Promise<void> {
+        const fileName = `${this.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'diagram'}.${format}`;
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        const uri = await vscode.window.showSaveDialog({
+            title: `Save Diagram as ${format.toUpperCase()}`,
+            defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, fileName) : undefined,
+            filters: format === 'svg' ? { 'SVG Image': ['svg'] } : { 'PNG Image': ['png'] }
+        });
+        if (!uri) {
+            return;
+        }
+        const content = format === 'svg' ? new TextEncoder().encode(data) : Buffer.from(data, 'base64');
+        await vscode.workspace.fs.writeFile(uri, content);
+        vscode.window.showInformationMessage(`Diagram saved to ${vscode.workspace.asRelativePath(uri)}.`);
+    }
+}
+
+// Appends the source as a ```mermaid block to a Markdown file picked from the workspace
+async function insertIntoMarkdown(source: string): Promise<void> {
+    const files = await vscode.workspace.findFiles('**/*.{md,markdown}', '**/node_modules/**', 1000);
+    if (files.length === 0) {
+        vscode.window.showWarningMessage('No Markdown files found in the workspace.');
+        return;
+    }
+    const picked = await vscode.window.showQuickPick(
+        files
+            .map(uri => ({ label: vscode.workspace.asRelativePath(uri), uri }))
+            .sort((a, b) => a.label.localeCompare(b.label)),
+        { title: 'Insert Diagram into Markdown File', placeHolder: 'The diagram is added at the end of the selected file' }
+    );
+    if (!picked) {
+        return;
+    }
+
+    const document = await vscode.workspace.openTextDocument(picked.uri);
+    const text = document.getText();
+    const end = document.lineAt(document.lineCount - 1).range.end;
+    const separator = text.length === 0 ? '' : text.endsWith('\n') ? '\n' : '\n\n';
+    const edit = new vscode.WorkspaceEdit();
+    edit.insert(document.uri, end, `${separator}\`\`\`mermaid\n${source}\n\`\`\`\n`);
+    if (!(await vscode.workspace.applyEdit(edit))) {
+        vscode.window.showErrorMessage(`Could not insert the diagram into ${picked.label}.`);
+        return;
+    }
+    const editor = await vscode.window.showTextDocument(document, { viewColumn: vscode.ViewColumn.Beside });
+    const inserted = new vscode.Position(end.line + separator.length, 0);
+    editor.selection = new vscode.Selection(inserted, inserted);
+    editor.revealRange(new vscode.Range(inserted, inserted), vscode.TextEditorRevealType.InCenter);
+}
+
+export function getDiagramWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri): string {
+    const nonce = getNonce();
+    const mermaidUri = getVendorUri(webview, extensionUri, 'mermaid', 'dist', 'mermaid.min.js');
+
+    return `<!DOCTYPE html>
+    <html lang="en">
+    <head>
+        <meta charset="UTF-8">
+        <meta http-equiv="Content-Security-Policy" content="${getContentSecurityPolicy(webview, nonce, { inlineStyles: true })}">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Diagram</title>
+        <script nonce="${nonce}" src="${mermaidUri}"></script>
+        <style>
+            body {
+                display: flex;
+                flex-direction: column;
+                height: 100vh;
+                margin: 0;
+                padding: 0 16px;
+                box-sizing: border-box;
+            }
+            .toolbar {
+                display: flex;
+                flex-wrap: wrap;
+                gap: 6px;
+                margin-bottom: 8px;
+            }
+            .toolbar button {
+                background-color: var(--vscode-button-secondaryBackground);
+                color: var(--vscode-button-secondaryForeground);
+                border: none;
+                padding: 4px 10px;
+                cursor: pointer;
+            }
+            .toolbar button:hover:not(:disabled) {
+                background-color: var(--vscode-button-secondaryHoverBackground);
+            }
+            .toolbar button:disabled {
+                opacity: 0.5;
+                cursor: default;
+            }
+            .toolbar .separator {
+                width: 1px;
+                background-color: var(--vscode-panel-border);
+            }
+            .status {
+                color: var(--vscode-descriptionForeground);
+            }
+            #viewport {
+                flex: 1;
+                overflow: hidden;
+                position: relative;
+                cursor: grab;
+                border: 1px solid var(--vscode-panel-border);
+                margin-bottom: 16px;
+            }
+            #viewport.panning {
+                cursor: grabbing;
+            }
+            #diagram g.linked {
+                cursor: pointer;
+            }
+            #diagram g.linked:hover {
+                filter: drop-shadow(0 0 2px var(--vscode-focusBorder));
+            }
+            #diagram g.linked.active {
+                filter: drop-shadow(0 0 5px var(--vscode-focusBorder));
+            }
+            #diagram {
+                transform-origin: 0 0;
+                padding: 10px;
+            }
+            .diagram-error {
+                color: var(--vscode-errorForeground, #f48771);
+                white-space: pre-wrap;
+                font-family: var(--vscode-editor-font-family, monospace);
+                border-left: 3px solid var(--vscode-errorForeground, #f48771);
+                padding: 6px 10px;
+            }
+            .diagram-source {
+                white-space: pre;
+                overflow-x: auto;
+                font-family: var(--vscode-editor-font-family, monospace);
+                background-color: var(--vscode-textCodeBlock-background);
+                padding: 10px;
+            }
+        </style>
+    </head>
+    <body>
+        <h1 id="title">Generated Diagram</h1>
+        <div class="toolbar">
+            <button id="zoomIn" title="Zoom in (Ctrl+scroll)">+</button>
+            <button id="zoomOut" title="Zoom out (Ctrl+scroll)">&minus;</button>
+            <button id="zoomReset" title="Reset zoom and position">Reset View</button>
+            <span class="separator"></span>
+            <button id="saveSvg" disabled>Save SVG</button>
+            <button id="savePng" disabled>Save PNG</button>
+            <button id="insertMarkdown" disabled>Insert into Markdown</button>
+            <button id="copySource" disabled>Copy Source</button>
+        </div>
+        <p id="status" class="status">Generating diagram...</p>
+        <div id="viewport"><div id="diagram"></div></div>
+        <script nonce="${nonce}">
+            const vscode = acquireVsCodeApi();
+            const heading = document.getElementById('title');
+            const status = document.getElementById('status');
+            const viewport = document.getElementById('viewport');
+            const container = document.getElementById('diagram');
+            const isDark = document.body.classList.contains('vscode-dark') || document.body.classList.contains('vscode-high-contrast');
+            // "strict" makes Mermaid escape labels and disables click handlers in the diagram source.
+            // Plain SVG labels (no HTML in foreignObject) keep the canvas untainted for PNG export.
+            mermaid.initialize({
+                startOnLoad: false,
+                securityLevel: 'strict',
+                theme: isDark ? 'dark' : 'default',
+                htmlLabels: false,
+                flowchart: { htmlLabels: false }
+            });
+
+            function errorText(error) {
+                return error && error.message ? error.message : String(error);
+            }
+
+            async function validateDiagram(id, source) {
+                try {
+                    await mermaid.parse(source);
+                    vscode.postMessage({ command: 'validationResult', id });
+                } catch (error) {
+                    vscode.postMessage({ command: 'validationResult', id, error: errorText(error) });
+                }
+            }
+
+            function showDiagnostics(source, message) {
+                container.textContent = '';
+                const error = document.createElement('pre');
+                error.className = 'diagram-error';
+                error.textContent = message;
+                const details = document.createElement('details');
+                details.open = true;
+                const summary = document.createElement('summary');
+                summary.textContent = 'Generated Mermaid source';
+                const code = document.createElement('pre');
+                code.className = 'diagram-source';
+                code.textContent = source.split('\\n').map((line, index) => String(index + 1).padStart(3) + '  ' + line).join('\\n');
+                details.append(summary, code);
+                container.append(error, details);
+            }
+
+            // Zoom and pan
+            let scale = 1;
+            let offsetX = 0;
+            let offsetY = 0;
+
+            function applyTransform() {
+                container.style.transform = 'translate(' + offsetX + 'px, ' + offsetY + 'px) scale(' + scale + ')';
+            }
+
+            // Zooms around a point of the viewport, so the content under it stays in place
+            function zoomAt(factor, x, y) {
+                const nextScale = Math.min(8, Math.max(0.1, scale * factor));
+                offsetX = x - (x - offsetX) * (nextScale / scale);
+                offsetY = y - (y - offsetY) * (nextScale / scale);
+                scale = nextScale;
+                applyTransform();
+            }
+
+            function resetView() {
+                scale = 1;
+                offsetX = 0;
+                offsetY = 0;
+                applyTransform();
+            }
+
+            document.getElementById('zoomIn').addEventListener('click', () => zoomAt(1.25, viewport.clientWidth / 2, viewport.clientHeight / 2));
+            document.getElementById('zoomOut').addEventListener('click', () => zoomAt(0.8, viewport.clientWidth / 2, viewport.clientHeight / 2));
+            document.getElementById('zoomReset').addEventListener('click', resetView);
+
+            viewport.addEventListener('wheel', event => {
+                const bounds = viewport.getBoundingClientRect();
+                if (event.ctrlKey || event.metaKey) {
+                    zoomAt(event.deltaY < 0 ? 1.1 : 1 / 1.1, event.clientX - bounds.left, event.clientY - bounds.top);
+                } else {
+                    offsetX -= event.deltaX;
+                    offsetY -= event.deltaY;
+                    applyTransform();
+                }
+                event.preventDefault();
+            }, { passive: false });
+
+            let dragStart = null;
+            viewport.addEventListener('pointerdown', event => {
+                // Leave text in the diagnostics selectable
+                if (event.button !== 0 || !container.querySelector('svg')) {
+                    return;
+                }
+                dragStart = {
+                    x: event.clientX - offsetX,
+                    y: event.clientY - offsetY,
+                    clientX: event.clientX,
+                    clientY: event.clientY,
+                    node: event.target.closest('g.linked')
+                };
+                viewport.setPointerCapture(event.pointerId);
+                viewport.classList.add('panning');
+            });
+            viewport.addEventListener('pointermove', event => {
+                if (dragStart) {
+                    offsetX = event.clientX - dragStart.x;
+                    offsetY = event.clientY - dragStart.y;
+                    applyTransform();
+                }
+            });
+            const endDrag = () => {
+                dragStart = null;
+                viewport.classList.remove('panning');
+            };
+            // Pointer capture retargets the click, so a press and release without dragging counts as a click
+            viewport.addEventListener('pointerup', event => {
+                if (dragStart && dragStart.node && Math.hypot(event.clientX - dragStart.clientX, event.clientY - dragStart.clientY) < 4) {
+                    vscode.postMessage({ command: 'revealNode', nodeId: dragStart.node.dataset.nodeId });
+                }
+                endDrag();
+            });
+            viewport.addEventListener('pointercancel', endDrag);
+
+            // Export
+            const exportButtons = {
+                saveSvg: document.getElementById('saveSvg'),
+                savePng: document.getElementById('savePng'),
+                insertMarkdown: document.getElementById('insertMarkdown'),
+                copySource: document.getElementById('copySource')
+            };
+
+            function updateToolbar(hasSource, hasSvg) {
+                exportButtons.saveSvg.disabled = !hasSvg;
+                exportButtons.savePng.disabled = !hasSvg;
+                exportButtons.insertMarkdown.disabled = !hasSource;
+                exportButtons.copySource.disabled = !hasSource;
+            }
+
+            function serializeSvg() {
+                const svg = container.querySelector('svg');
+                return svg ? new XMLSerializer().serializeToString(svg) : null;
+            }
+
+            // Draws the SVG at twice its natural size onto a canvas with the editor background
+            function svgToPng(svg) {
+                return new Promise((resolve, reject) => {
+                    const box = svg.viewBox.baseVal;
+                    const width = box && box.width ? box.width : svg.getBoundingClientRect().width;
+                    const height = box && box.height ? box.height : svg.getBoundingClientRect().height;
+                    const copy = svg.cloneNode(true);
+                    copy.setAttribute('width', String(width));
+                    copy.setAttribute('height', String(height));
+                    copy.style.maxWidth = 'none';
+
+                    const image = new Image();
+                    image.onload = () => {
+                        const pixelRatio = 2;
+                        const canvas = document.createElement('canvas');
+                        canvas.width = Math.ceil(width * pixelRatio);
+                        canvas.height = Math.ceil(height * pixelRatio);
+                        const context = canvas.getContext('2d');
+                        context.fillStyle = getComputedStyle(document.body).backgroundColor;
+                        context.fillRect(0, 0, canvas.width, canvas.height);
+                        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+                        try {
+                            resolve(canvas.toDataURL('image/png').split(',')[1]);
+                        } catch (error) {
+                            reject(error);
+                        }
+                    };
+                    image.onerror = () => reject(new Error('The SVG could not be loaded as an image.'));
+                    image.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(new XMLSerializer().serializeToString(copy));
+                });
+            }
+
+            exportButtons.saveSvg.addEventListener('click', () => {
+                const svg = serializeSvg();
+                if (svg) {
+                    vscode.postMessage({ command: 'saveImage', format: 'svg', data: '<?xml version="1.0" encoding="UTF-8"?>\\n' + svg });
+                }
+            });
+            exportButtons.savePng.addEventListener('click', async () => {
+                const svg = container.querySelector('svg');
+                if (!svg) {
+                    return;
+                }
+                try {
+                    vscode.postMessage({ command: 'saveImage', format: 'png', data: await svgToPng(svg) });
+                } catch (error) {
+                    status.textContent = 'PNG export failed: ' + errorText(error);
+                }
+            });
+            exportButtons.insertMarkdown.addEventListener('click', () => vscode.postMessage({ command: 'insertIntoMarkdown' }));
+            exportButtons.copySource.addEventListener('click', () => vscode.postMessage({ command: 'copySource' }));
+
+            // Node id -> its <g> element, for nodes that are linked to source lines
+            let nodeElements = new Map();
+
+            // Mermaid names node groups "<render id>-flowchart-<node id>-<n>" or "<render id>-state-<node id>-<n>"
+            function linkNodes(renderId, linkedNodes) {
+                nodeElements = new Map();
+                for (const element of container.querySelectorAll('g.node[id]')) {
+                    const match = element.id.startsWith(renderId + '-') && element.id.slice(renderId.length + 1).match(/^(?:flowchart|state)-(.+)-\\d+$/);
+                    if (match && linkedNodes.includes(match[1]) && !nodeElements.has(match[1])) {
+                        element.classList.add('linked');
+                        element.dataset.nodeId = match[1];
+                        nodeElements.set(match[1], element);
+                    }
+                }
+            }
+
+            function highlightNode(nodeId) {
+                for (const [id, element] of nodeElements) {
+                    element.classList.toggle('active', id === nodeId);
+                }
+            }
+
+            let renderCount = 0;
+            async function renderDiagram({ title, source, error, attempts, linkedNodes }) {
+                heading.textContent = title;
+                resetView();
+                updateToolbar(true, false);
+                const repairs = attempts - 1;
+                if (error) {
+                    status.textContent = 'The diagram does not parse' + (repairs > 0 ? ' after ' + repairs + ' repair attempt' + (repairs > 1 ? 's' : '') : '') + '.';
+                    showDiagnostics(source, error);
+                    return;
+                }
+                status.textContent = repairs > 0 ? 'Repaired automatically after ' + repairs + ' failed parse' + (repairs > 1 ? 's' : '') + '.' : '';
+                try {
+                    const renderId = 'workflow-diagram-' + renderCount++;
+                    const { svg } = await mermaid.render(renderId, source);
+                    container.innerHTML = svg;
+                    linkNodes(renderId, linkedNodes || []);
+                    updateToolbar(true, true);
+                } catch (renderError) {
+                    status.textContent = 'The diagram could not be rendered.';
+                    showDiagnostics(source, errorText(renderError));
+                }
+            }
+
+            window.addEventListener('message', event => {
+                const message = event.data;
+                switch (message.command) {
+                    case 'validateDiagram':
+                        validateDiagram(message.id, message.source);
+                        break;
+                    case 'renderDiagram':
+                        renderDiagram(message);
+                        break;
+                    case 'highlightNode':
+                        highlightNode(message.nodeId);
+                        break;
+                }
+            });
+
+            vscode.postMessage({ command: 'ready' });
+        </script>
+    </body>
+    </html>`;
+}
@@ -0,0 +1,337 @@
+import * as vscode from 'vscode';
+import { numberLines } from './selectionCommands';
+
+export type DiagramTypeId = 'flowchart' | 'sequence' | 'class' | 'state' | 'dependencies';
+
+export interface DiagramType {
+    id: DiagramTypeId;
+    label: string;
+    detail: string;
+    // 'selection' diagrams describe the selected code; 'files' diagrams a file or folder
+    scope: 'selection' | 'files';
+    header: string;
+    instructions: string;
+}
+
+// Lets the diagram panel link nodes back to the code; see extractNodeLines
+const NODE_LINES_INSTRUCTIONS = `After the diagram, map every node to the source lines it represents with one comment line per node:
+%% lines <node id> <first line>-<last line>
+using the line numbers shown in front of the code, e.g. %% lines A 12-14.`;
+
+export const DIAGRAM_TYPES: DiagramType[] = [
+    {
+        id: 'flowchart',
+        label: 'Workflow Diagram',
+        detail: 'Flowchart of the control flow in the selected code',
+        scope: 'selection',
+        header: 'flowchart TD',
+        instructions: `Analyze the code for logical branches (if/else), loops, and error handling (try/except) to create the flowchart.
+Put node labels in double quotes, e.g. A["parse(input)"], and do not use double quotes inside labels.
+${NODE_LINES_INSTRUCTIONS}`
+    },
+    {
+        id: 'sequence',
+        label: 'Sequence Diagram',
+        detail: 'Calls between functions and objects made by the selected code',
+        scope: 'selection',
+        header: 'sequenceDiagram',
+        instructions: `Show the calls the selected code makes as messages between participants (callers, callees, objects, modules and external services), in the order they happen.
+Use alt/opt/loop blocks for branches and loops. Declare participants with short identifiers and readable aliases, e.g. participant LF as LLMFactory.`
+    },
+    {
+        id: 'state',
+        label: 'State Diagram',
+        detail: 'States and transitions of a reducer or state machine in the selection',
+        scope: 'selection',
+        header: 'stateDiagram-v2',
+        instructions: `Identify the states the selected code (e.g. a reducer, state machine or status field) can be in and the actions or events that move it between them.
+Label every transition with the action or event that triggers it, and mark the initial state with [*].
+${NODE_LINES_INSTRUCTIONS}`
+    },
+    {
+        id: 'class',
+        label: 'Class Diagram',
+        detail: 'Classes, interfaces and their relationships in a file or folder',
+        scope: 'files',
+        header: 'classDiagram',
+        instructions: `Draw every class, interface and enum in the outline with its most important members.
+Add inheritance (<|--), interface realization (<|..), composition and association arrows based on the declarations and member types.`
+    },
+    {
+        id: 'dependencies',
+        label: 'Module Dependency Graph',
+        detail: 'Import relationships between the modules in a file or folder',
+        scope: 'files',
+        header: 'flowchart LR',
+        instructions: ''
+    }
+];
+
+export interface DiagramTarget {
+    uri: vscode.Uri;
+    isFolder: boolean;
+}
+
+// Files that class diagrams and dependency graphs look at, and build/vendor folders they skip
+const SOURCE_GLOB = '**/*.{ts,tsx,js,jsx,mjs,cjs,py}';
+const EXCLUDE_GLOB = '**/{node_modules,out,dist,build,.git,__pycache__}/**';
+const MAX_FILES = 200;
+// Keeps class outlines within a single prompt
+const MAX_OUTLINE_CHARS = 24000;
+const MAX_CALL_DEPTH = 2;
+const MAX_CALLS = 60;
+
+export async function resolveDiagramTarget(uri: vscode.Uri | undefined): Promise<DiagramTarget | undefined> {
+    if (!uri) {
+        return undefined;
+    }
+    try {
+        const stat = await vscode.workspace.fs.stat(uri);
+        return { uri, isFolder: (stat.type & vscode.FileType.Directory) !== 0 };
+    } catch {
+        // Untitled and virtual documents still work as a single file
+        return { uri, isFolder: false };
+    }
+}
+
+export async function pickDiagramType(hasSelection: boolean, target: DiagramTarget | undefined): Promise<DiagramType | undefined> {
+    const types = DIAGRAM_TYPES.filter(type => type.scope === 'selection' ? hasSelection : target !== undefined);
+    if (types.length === 1) {
+        return types[0];
+    }
+    const picked = await vscode.window.showQuickPick(
+        types.map(type => ({ label: type.label, detail: type.detail, type })),
+        { title: 'Generate Diagram', placeHolder: 'Select a diagram type' }
+    );
+    return picked?.type;
+}
+
+async function listSourceFiles(target: DiagramTarget): Promise<vscode.Uri[]> {
+    if (!target.isFolder) {
+        return [target.uri];
+    }
+    const files = await vscode.workspace.findFiles(new vscode.RelativePattern(target.uri, SOURCE_GLOB), EXCLUDE_GLOB, MAX_FILES);
+    return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+async function getDocumentSymbols(uri: vscode.Uri): Promise<vscode.DocumentSymbol[]> {
+    const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+        'vscode.executeDocumentSymbolProvider',
+        uri
+    );
+    // Providers may answer with the flat SymbolInformation form, which has no children
+    return (symbols ?? []).filter((symbol): symbol is vscode.DocumentSymbol => 'children' in symbol);
+}
+
+const CLASS_KINDS = [vscode.SymbolKind.Class, vscode.SymbolKind.Interface, vscode.SymbolKind.Enum, vscode.SymbolKind.Struct];
+const FUNCTION_KINDS = [vscode.SymbolKind.Function, vscode.SymbolKind.Method, vscode.SymbolKind.Constructor];
+
+function declarationLine(document: vscode.TextDocument, symbol: vscode.DocumentSymbol): string {
+    return document.lineAt(symbol.selectionRange.start.line).text.trim().slice(0, 160);
+}
+
+/**
+ * Outlines the classes, interfaces and enums of the target as reported by the language's
+ * symbol provider, with each declaration line (for extends/implements) and member signature.
+ */
+async function describeClasses(target: DiagramTarget): Promise<string> {
+    const sections: string[] = [];
+    let length = 0;
+    for (const uri of await listSourceFiles(target)) {
+        const document = await vscode.workspace.openTextDocument(uri);
+        const lines: string[] = [];
+        const visit = (symbols: vscode.DocumentSymbol[]) => {
+            for (const symbol of symbols) {
+                if (CLASS_KINDS.includes(symbol.kind)) {
+                    lines.push(`${vscode.SymbolKind[symbol.kind]} ${symbol.name}: ${declarationLine(document, symbol)}`);
+                    for (const member of symbol.children) {
+                        lines.push(`    ${vscode.SymbolKind[member.kind]} ${member.name}: ${declarationLine(document, member)}`);
+                    }
+                }
+                visit(symbol.children.filter(child => !CLASS_KINDS.includes(symbol.kind) || CLASS_KINDS.includes(child.kind)));
+            }
+        };
+        visit(await getDocumentSymbols(uri));
+        if (lines.length === 0) {
+            continue;
+        }
+
+        const section = `File: ${vscode.workspace.asRelativePath(uri)}\n${lines.join('\n')}`;
+        if (length + section.length > MAX_OUTLINE_CHARS) {
+            sections.push('(outline truncated)');
+            break;
+        }
+        sections.push(section);
+        length += section.length;
+    }
+    return sections.join('\n\n');
+}
+
+/**
+ * Lists the calls made by the functions in `range`, following the call hierarchy
+ * provider up to MAX_CALL_DEPTH levels deep.
+ */
+async function describeCalls(document: vscode.TextDocument, range: vscode.Range): Promise<string> {
+    const functions: vscode.DocumentSymbol[] = [];
+    const visit = (symbols: vscode.DocumentSymbol[]) => {
+        for (const symbol of symbols) {
+            if (FUNCTION_KINDS.includes(symbol.kind) && symbol.range.intersection(range)) {
+                functions.push(symbol);
+            }
+            visit(symbol.children);
+        }
+    };
+    visit(await getDocumentSymbols(document.uri));
+    const positions = functions.length > 0 ? functions.map(symbol => symbol.selectionRange.start) : [range.start];
+
+    const calls: string[] = [];
+    const visited = new Set<string>();
+    const walk = async (item: vscode.CallHierarchyItem, depth: number): Promise<void> => {
+        const key = `${item.uri.toString()}#${item.selectionRange.start.line}:${item.name}`;
+        if (visited.has(key) || depth > MAX_CALL_DEPTH) {
+            return;
+        }
+        visited.add(key);
+        const outgoing = await vscode.commands.executeCommand<vscode.CallHierarchyOutgoingCall[]>('vscode.provideOutgoingCalls', item) ?? [];
+        for (const call of outgoing) {
+            if (calls.length >= MAX_CALLS) {
+                return;
+            }
+            const location = `${vscode.workspace.asRelativePath(call.to.uri)}:${call.to.selectionRange.start.line + 1}`;
+            calls.push(`${'  '.repeat(depth)}${item.name} -> ${call.to.name}${call.to.detail ? ` (${call.to.detail})` : ''} [${location}]`);
+            await walk(call.to, depth + 1);
+        }
+    };
+
+    for (const position of positions) {
+        const items = await vscode.commands.executeCommand<vscode.CallHierarchyItem[]>('vscode.prepareCallHierarchy', document.uri, position) ?? [];
+        for (const item of items) {
+            await walk(item, 0);
+        }
+    }
+    return calls.join('\n');
+}
+
+/**
+ * Builds the prompt for a model-generated diagram. The structure comes from the language's
+ * symbol and call hierarchy providers where they answer; the code fills in the rest.
+ */
+export async function buildDiagramPrompt(type: DiagramType, editor: vscode.TextEditor | undefined, target: DiagramTarget | undefined): Promise<string> {
+    const context: string[] = [];
+    if (type.scope === 'selection' && editor) {
+        context.push(`Here is the code to analyze. Every line starts with its line number and "| ", which are not part of the code:
+\`\`\`${editor.document.languageId}
+${numberLines(editor.document, editor.selection)}
+\`\`\``);
+        if (type.id === 'sequence') {
+            const calls = await describeCalls(editor.document, editor.selection);
+            if (calls) {
+                context.push(`Calls reported by the language server (caller -> callee [file:line], indented by call depth):
+${calls}`);
+            }
+        }
+    } else if (target) {
+        const outline = await describeClasses(target);
+        context.push(outline
+            ? `Outline of ${vscode.workspace.asRelativePath(target.uri)} from the language server (kind name: declaration):\n${outline}`
+            : `No classes were reported for ${vscode.workspace.asRelativePath(target.uri)}. Reply with '${type.header}' followed by a single note explaining that.`);
+    }
+
+    return `You are an expert code analysis tool. Your task is to create a Mermaid.js ${type.label.toLowerCase()}.
+
+CRITICAL INSTRUCTIONS:
+1. Your response MUST start with '${type.header}'.
+2. Your response MUST contain ONLY the valid Mermaid.js code.
+3. Do NOT include ANY explanations, apologies, or markdown fences like \`\`\`mermaid.
+4. ${type.instructions.replace(/\n/g, '\n   ')}
+
+${context.join('\n\n')}`;
+}
+
+//## Module dependency graphs, built from import statements without the model
+
+const IMPORT_PATTERNS = [
+    /(?<![.\w$])(?:import|export)\s+(?:[^'";]*?\s+from\s+)?['"]([^'"]+)['"]/g,
+    /(?<![.\w$])(?:require|import)\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+    /^\s*from\s+([.\w]+)\s+import\b/gm,
+    /^\s*import\s+([\w.]+)/gm
+];
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+function findImports(text: string, isPython: boolean): string[] {
+    const specifiers = new Set<string>();
+    for (const pattern of isPython ? IMPORT_PATTERNS.slice(2) : IMPORT_PATTERNS.slice(0, 2)) {
+        for (const match of text.matchAll(pattern)) {
+            specifiers.add(match[1]);
+        }
+    }
+    return [...specifiers];
+}
+
+// Maps an import specifier onto one of `files`; undefined for packages outside the target
+function resolveImport(from: vscode.Uri, specifier: string, files: Map<string, vscode.Uri>, root: vscode.Uri): vscode.Uri | undefined {
+    const directory = vscode.Uri.joinPath(from, '..');
+    let candidates: vscode.Uri[];
+    if (from.path.endsWith('.py')) {
+        const dots = specifier.match(/^\.*/)?.[0].length ?? 0;
+        const base = dots > 0 ? vscode.Uri.joinPath(directory, ...Array(dots - 1).fill('..')) : root;
+        const parts = specifier.slice(dots).split('.').filter(Boolean);
+        const module = vscode.Uri.joinPath(base, ...parts);
+        candidates = [module.with({ path: `${module.path}.py` }), vscode.Uri.joinPath(module, '__init__.py')];
+    } else {
+        if (!specifier.startsWith('.')) {
+            return undefined;
+        }
+        const module = vscode.Uri.joinPath(directory, specifier);
+        // Compiled ESM imports name the .js file of a .ts source
+        const stem = module.path.replace(/\.(?:js|jsx|mjs|cjs)$/, '');
+        candidates = [
+            module,
+            ...SCRIPT_EXTENSIONS.map(extension => module.with({ path: `${stem}${extension}` })),
+            ...SCRIPT_EXTENSIONS.map(extension => vscode.Uri.joinPath(module, `index${extension}`))
+        ];
+    }
+    return candidates.map(candidate => files.get(candidate.toString())).find(Boolean);
+}
+
+function mermaidLabel(text: string): string {
+    return `"${text.replace(/"/g, '#quot;')}"`;
+}
+
+/**
+ * Builds a flowchart of the imports between the modules of a folder. For a single file, its own
+ * imports are shown, packages included.
+ */
+export async function buildDependencyGraph(target: DiagramTarget): Promise<string> {
+    const root = target.isFolder ? target.uri : vscode.Uri.joinPath(target.uri, '..');
+    const folderFiles = await listSourceFiles(target.isFolder ? target : { uri: root, isFolder: true });
+    const files = new Map(folderFiles.map(uri => [uri.toString(), uri]));
+    const sources = target.isFolder ? folderFiles : [target.uri];
+
+    const ids = new Map<string, string>();
+    const nodes: string[] = [];
+    const nodeId = (key: string, label: string) => {
+        let id = ids.get(key);
+        if (!id) {
+            id = `m${ids.size}`;
+            ids.set(key, id);
+            nodes.push(`    ${id}[${mermaidLabel(label)}]`);
+        }
+        return id;
+    };
+
+    const edges: string[] = [];
+    for (const uri of sources) {
+        const text = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+        const from = nodeId(uri.toString(), vscode.workspace.asRelativePath(uri));
+        for (const specifier of findImports(text, uri.path.endsWith('.py'))) {
+            const resolved = resolveImport(uri, specifier, files, root);
+            if (resolved) {
+                edges.push(`    ${from} --> ${nodeId(resolved.toString(), vscode.workspace.asRelativePath(resolved))}`);
+            } else if (!target.isFolder) {
+                edges.push(`    ${from} -.-> ${nodeId(`package:${specifier}`, specifier)}`);
+            }
+        }
+    }
+    return ['flowchart LR', ...nodes, ...edges].join('\n');
+}
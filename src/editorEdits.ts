@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+
+export const PROPOSAL_SCHEME = 'codesuggestion-proposal';
+
+//## Read-only documents holding proposed changes, shown on the right side of a diff
+export class ProposalContentProvider implements vscode.TextDocumentContentProvider {
+    private readonly proposals = new Map<string, string>();
+    private counter = 0;
+
+    create(original: vscode.Uri, content: string): vscode.Uri {
+        const name = original.path.split('/').pop() || 'untitled';
+        const uri = vscode.Uri.from({ scheme: PROPOSAL_SCHEME, path: `/${++this.counter}/${name}` });
+        this.proposals.set(uri.toString(), content);
+        return uri;
+    }
+
+    discard(uri: vscode.Uri): void {
+        this.proposals.delete(uri.toString());
+    }
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.proposals.get(uri.toString()) ?? '';
+    }
+}
+
+export async function insertAtCursor(editor: vscode.TextEditor, code: string): Promise<void> {
+    await editor.edit(builder => builder.insert(editor.selection.active, code));
+}
+
+export async function replaceSelection(editor: vscode.TextEditor, code: string): Promise<void> {
+    if (editor.selection.isEmpty) {
+        vscode.window.showWarningMessage('Select the code to replace first.');
+        return;
+    }
+    await editor.edit(builder => builder.replace(editor.selection, code));
+}
+
+async function closeDiff(proposal: vscode.Uri): Promise<void> {
+    for (const group of vscode.window.tabGroups.all) {
+        for (const tab of group.tabs) {
+            if (tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === proposal.toString()) {
+                await vscode.window.tabGroups.close(tab);
+            }
+        }
+    }
+}
+
+/**
+ * Shows `range` replaced by `newText` in a diff editor and applies it as a WorkspaceEdit
+ * once the user accepts. Resolves to true when the change was applied.
+ */
+export async function previewAndApplyEdit(
+    proposals: ProposalContentProvider,
+    document: vscode.TextDocument,
+    range: vscode.Range,
+    newText: string,
+    title: string
+): Promise<boolean> {
+    const version = document.version;
+    const original = document.getText();
+    const proposed = original.slice(0, document.offsetAt(range.start)) + newText + original.slice(document.offsetAt(range.end));
+    const proposal = proposals.create(document.uri, proposed);
+
+    try {
+        await vscode.commands.executeCommand('vscode.diff', document.uri, proposal, title, { preview: true });
+        const choice = await vscode.window.showInformationMessage(
+            `Apply the proposed changes to ${vscode.workspace.asRelativePath(document.uri)}?`,
+            'Apply',
+            'Discard'
+        );
+        if (choice !== 'Apply') {
+            return false;
+        }
+        if (document.version !== version) {
+            vscode.window.showWarningMessage('The file changed while the diff was open. Please try again.');
+            return false;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(document.uri, range, newText);
+        return await vscode.workspace.applyEdit(edit);
+    } finally {
+        await closeDiff(proposal);
+        proposals.discard(proposal);
+    }
+}
@@ -0,0 +1,240 @@
+import * as vscode from 'vscode';
+import axios, { isAxiosError } from 'axios';
+import OpenAI from 'openai';
+import { getProviderName, SET_API_KEY_COMMANDS } from './apiKeys';
+
+export type LLMErrorKind =
+    | 'auth'
+    | 'rateLimit'
+    | 'quota'
+    | 'timeout'
+    | 'network'
+    | 'invalidModel'
+    | 'server'
+    | 'config'
+    | 'cancelled'
+    | 'unknown';
+
+const ERROR_TITLES: Record<LLMErrorKind, string> = {
+    auth: 'Authentication failed',
+    rateLimit: 'Rate limit reached',
+    quota: 'Quota exceeded',
+    timeout: 'Request timed out',
+    network: 'Network error',
+    invalidModel: 'Model not available',
+    server: 'Provider server error',
+    config: 'Provider not configured',
+    cancelled: 'Request cancelled',
+    unknown: 'Request failed'
+};
+
+//## Typed provider failures (thrown instead of being returned as reply text)
+export class LLMError extends Error {
+    constructor(
+        readonly kind: LLMErrorKind,
+        // Provider id as used in settings, e.g. "groq"
+        readonly provider: string,
+        message: string,
+        readonly status?: number,
+        // Delay requested by the server (Retry-After) before trying again
+        readonly retryAfterMs?: number
+    ) {
+        super(message);
+        this.name = 'LLMError';
+    }
+
+    // Worth trying again later; auth, quota and model problems will not fix themselves
+    get retryable(): boolean {
+        return this.kind === 'rateLimit' || this.kind === 'timeout' || this.kind === 'network' || this.kind === 'server';
+    }
+
+    get title(): string {
+        return ERROR_TITLES[this.kind];
+    }
+
+    describe(): string {
+        const name = getProviderName(this.provider);
+        return `${this.title} (${name}): ${this.message}`;
+    }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function kindFromStatus(status: number, message: string, code?: string | null): LLMErrorKind {
+    const text = `${code ?? ''} ${message}`.toLowerCase();
+    if (status === 401 || status === 403) {
+        return 'auth';
+    }
+    if (status === 402 || text.includes('insufficient_quota') || text.includes('exceeded your current quota')) {
+        return 'quota';
+    }
+    if (status === 429) {
+        return 'rateLimit';
+    }
+    if (status === 408 || status === 504) {
+        return 'timeout';
+    }
+    if (status === 404 || ((status === 400 || status === 422) && /model/.test(text) && /not (found|exist|supported)|does not exist|decommissioned|invalid/.test(text))) {
+        return 'invalidModel';
+    }
+    if (status === 400 && /api key not valid|invalid api key|api_key_invalid/.test(text)) {
+        return 'auth';
+    }
+    if (status >= 500) {
+        return 'server';
+    }
+    return 'unknown';
+}
+
+// Stopped on purpose (an aborted signal), as opposed to a timeout
+function isCancellation(error: unknown): boolean {
+    return axios.isCancel(error) || error instanceof OpenAI.APIUserAbortError || (error as Error)?.name === 'AbortError';
+}
+
+const NETWORK_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH', 'EPIPE'];
+
+/**
+ * Maps whatever a provider SDK threw (axios, OpenAI SDK, Gemini SDK) onto an LLMError.
+ * `apiMessage` is the error message from the response body when the caller already read it.
+ */
+export function toLLMError(error: unknown, provider: string, apiMessage?: string): LLMError {
+    if (error instanceof LLMError) {
+        return error;
+    }
+    if (isCancellation(error)) {
+        return new LLMError('cancelled', provider, (error as Error)?.message || 'The request was cancelled.');
+    }
+
+    if (isAxiosError(error)) {
+        if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+            return new LLMError('timeout', provider, error.message);
+        }
+        if (!error.response) {
+            return new LLMError('network', provider, error.message);
+        }
+        const status = error.response.status;
+        const message = apiMessage || error.response.data?.error?.message || error.message;
+        return new LLMError(
+            kindFromStatus(status, message, error.response.data?.error?.code),
+            provider,
+            message,
+            status,
+            parseRetryAfter(error.response.headers?.['retry-after'])
+        );
+    }
+
+    if (error instanceof OpenAI.APIConnectionTimeoutError) {
+        return new LLMError('timeout', provider, error.message);
+    }
+    if (error instanceof OpenAI.APIConnectionError) {
+        return new LLMError('network', provider, error.message);
+    }
+    if (error instanceof OpenAI.APIError && error.status !== undefined) {
+        const retryAfterMs = error.headers?.['retry-after-ms']
+            ? Number(error.headers['retry-after-ms'])
+            : parseRetryAfter(error.headers?.['retry-after']);
+        return new LLMError(kindFromStatus(error.status, error.message, error.code), provider, error.message, error.status, retryAfterMs);
+    }
+
+    const message = (error as Error)?.message ?? String(error);
+    // The Gemini SDK only reports failures as text, e.g. "Error fetching from <url>: [429 Too Many Requests] ..."
+    const statusMatch = message.match(/\[(\d{3})[^\]]*\]/);
+    if (statusMatch) {
+        const status = Number(statusMatch[1]);
+        return new LLMError(kindFromStatus(status, message), provider, message.replace(/^\[GoogleGenerativeAI Error\]:\s*/, ''), status);
+    }
+    // The Gemini SDK reports its own timeout as an aborted request; cancellations by the user are
+    // recognised by their signal (see withRetry)
+    if (/aborted|timed? ?out/i.test(message)) {
+        return new LLMError('timeout', provider, message);
+    }
+    const code = (error as NodeJS.ErrnoException)?.code ?? (error as { cause?: NodeJS.ErrnoException })?.cause?.code;
+    if ((code && NETWORK_ERROR_CODES.includes(code)) || /fetch failed|network/i.test(message)) {
+        return new LLMError('network', provider, message);
+    }
+    return new LLMError('unknown', provider, message);
+}
+
+export function getRequestSettings() {
+    const config = vscode.workspace.getConfiguration('codeAssistant');
+    return {
+        timeoutMs: config.get<number>('requestTimeoutMs', 60000),
+        maxRetries: config.get<number>('maxRetries', 2)
+    };
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            resolve();
+        }, { once: true });
+    });
+}
+
+// Servers sometimes ask for very long waits; beyond this the error is surfaced instead
+const MAX_RETRY_DELAY_MS = 30000;
+
+/**
+ * Runs `request`, retrying retryable failures with exponential backoff (1s, 2s, 4s, ... plus
+ * jitter). A server-supplied Retry-After takes precedence over the backoff delay. Once `signal`
+ * is aborted the request fails with a 'cancelled' error.
+ */
+export async function withRetry<T>(provider: string, request: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const { maxRetries } = getRequestSettings();
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await request();
+        } catch (error) {
+            if (signal?.aborted) {
+                throw new LLMError('cancelled', provider, 'The request was cancelled.');
+            }
+            const llmError = toLLMError(error, provider);
+            const delay = llmError.retryAfterMs ?? 1000 * 2 ** attempt + Math.random() * 250;
+            if (!llmError.retryable || attempt >= maxRetries || delay > MAX_RETRY_DELAY_MS) {
+                throw llmError;
+            }
+            await sleep(delay, signal);
+        }
+    }
+}
+
+/**
+ * Shows a provider failure as an error notification, with a shortcut to the fix where there is one.
+ * Requests the user cancelled are not reported.
+ */
+export async function showLLMError(error: unknown, action: string): Promise<void> {
+    if (error instanceof LLMError && error.kind === 'cancelled') {
+        return;
+    }
+    if (!(error instanceof LLMError)) {
+        vscode.window.showErrorMessage(`Error ${action}: ${(error as Error).message}`);
+        return;
+    }
+
+    const setKeyCommand = (SET_API_KEY_COMMANDS as Record<string, string>)[error.provider];
+    const choices: string[] = [];
+    if (error.kind === 'auth' && setKeyCommand) {
+        choices.push('Set API Key');
+    } else if (error.kind === 'invalidModel' || error.kind === 'timeout' || error.kind === 'config') {
+        choices.push('Open Settings');
+    }
+    const choice = await vscode.window.showErrorMessage(`Error ${action} – ${error.describe()}`, ...choices);
+    if (choice === 'Set API Key') {
+        vscode.commands.executeCommand(setKeyCommand);
+    } else if (choice === 'Open Settings') {
+        vscode.commands.executeCommand('workbench.action.openSettings', 'codeAssistant');
+    }
+}
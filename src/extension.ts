@@ -1,184 +1,577 @@
 import * as vscode from 'vscode';
-import axios, { AxiosResponse, isAxiosError } from 'axios';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { ApiKeyProvider, ApiKeyStore, SET_API_KEY_COMMANDS } from './apiKeys';
+import { browseChatSessions, ChatSession, ChatSessionStore, createChatSession, titleFromPrompt } from './chatSessions';
+import { insertAtCursor, previewAndApplyEdit, PROPOSAL_SCHEME, ProposalContentProvider, replaceSelection } from './editorEdits';
+import { LLMError, showLLMError, toLLMError } from './errors';
+import { AICompletionProvider } from './inlineCompletions';
+import { buildSelectionPrompt, extractCodeBlock, SELECTION_COMMANDS, SelectionCommand } from './selectionCommands';
+import { getContentSecurityPolicy, getNonce, getVendorRoot, getVendorUri } from './webview';
+import { DiagramPanel } from './diagramPanel';
+import { extractNodeLines, generateDiagram } from './mermaid';
+import { buildDependencyGraph, buildDiagramPrompt, pickDiagramType, resolveDiagramTarget } from './diagrams';
+import { analyzeCodePatterns, PatternDiagnostics, PREVIEW_RECOMMENDATION_COMMAND } from './patternAnalysis';
+import { StructuredOutputError } from './structuredOutput';
+import { addAnalysis, createReport, describeReport, getAnalysisLimits, PatternReportProvider, ReportGrouping, runPatternAnalysis } from './patternReport';
+import { exportPatternReport } from './patternExport';
+import { PatternAnalysisPanel } from './patternAnalysisPanel';
+import { findWorkspaceFiles, WorkspaceFiles } from './workspaceFiles';
+import { collectResponse, userMessage } from './providers';
+import { describeAnswer, FallbackProvider, showFallbackNotice } from './fallback';
+import { describeUsage, UsageStore } from './usage';
+import { UsagePanel, UsageStatusBar } from './usagePanel';
+import { getContextSettings, WorkspaceIndex, WorkspaceSnippet, withWorkspaceContext } from './workspaceIndex';
+import { ModelCatalog } from './modelCatalog';
 
-// The interface remains the same
-interface LLMProvider {
-    generateResponse(prompt: string, model?: string): Promise<string>;
-}
+//## Activate Function
+export function activate(context: vscode.ExtensionContext) {
+    ApiKeyStore.initialize(context.secrets);
+    UsageStore.initialize(context.globalState);
+    ApiKeyStore.migrateFromSettings().catch(error => {
+        console.error('API key migration failed:', error);
+    });
 
-//## Groq Provider (with updated model list)
-class GroqProvider implements LLMProvider {
-    private getApiKey(): string | undefined {
-        return vscode.workspace.getConfiguration('codeAssistant.groq').get('apiKey');
+    for (const [provider, command] of Object.entries(SET_API_KEY_COMMANDS)) {
+        context.subscriptions.push(
+            vscode.commands.registerCommand(command, () => ApiKeyStore.promptAndStore(provider as ApiKeyProvider))
+        );
     }
 
-    async generateResponse(prompt: string, model: string = 'llama-3.1-8b-instant'): Promise<string> {
-        const apiKey = this.getApiKey();
-        if (!apiKey) {
-            return 'Error: Groq API Key is not set.';
-        }
+    const proposals = new ProposalContentProvider();
+    context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(PROPOSAL_SCHEME, proposals));
 
-        try {
-            const response: AxiosResponse<any> = await axios.post(
-                'https://api.groq.com/openai/v1/chat/completions',
-                { model, messages: [{ role: 'user', content: prompt }] },
-                { headers: { 'Authorization': `Bearer ${apiKey}` } }
-            );
-            return response.data.choices[0]?.message?.content?.trim() || 'No response generated';
-        } catch (error) {
-            if (isAxiosError(error)) {
-                return `Groq API Error: ${error.response?.data?.error?.message || error.message}`;
-            }
-            return 'An unknown error occurred with Groq.';
+    // Focusing the chat panel clears activeTextEditor, so remember the editor the user last worked in
+    let lastEditor = vscode.window.activeTextEditor;
+    context.subscriptions.push(vscode.window.onDidChangeActiveTextEditor(editor => {
+        if (editor) {
+            lastEditor = editor;
         }
-    }
-}
+    }));
 
-//## Gemini Provider (re-introduced and updated)
-class GeminiProvider implements LLMProvider {
-    private getApiKey(): string | undefined {
-        return vscode.workspace.getConfiguration('codeAssistant.gemini').get('apiKey');
-    }
-
-    // UPDATED: Changed the default model to the stable 1.5 Pro identifier
-    async generateResponse(prompt: string, model: string = 'gemini-1.5-pro'): Promise<string> {
-        const apiKey = this.getApiKey();
-        if (!apiKey) {
-            return 'Error: Gemini API Key is not set.';
+    // Handles the Copy / Insert / Replace / Apply as diff buttons on chat code blocks
+    const applyCodeBlock = async (action: string, code: string) => {
+        if (action === 'copy') {
+            await vscode.env.clipboard.writeText(code);
+            vscode.window.setStatusBarMessage('Code copied to clipboard.', 2000);
+            return;
         }
-
-        try {
-            const genAI = new GoogleGenerativeAI(apiKey);
-            const geminiModel = genAI.getGenerativeModel({ model });
-            const result = await geminiModel.generateContent(prompt);
-            return (await result.response).text();
-        } catch (error) {
-            return `Gemini API Error: ${(error as Error).message}`;
+        if (!lastEditor || lastEditor.document.isClosed) {
+            vscode.window.showErrorMessage('No editor to apply the code to. Please open a file first.');
+            return;
         }
-    }
-}
 
-//## Factory to select the correct provider
-class LLMFactory {
-    static getProvider(type: string): LLMProvider {
-        switch (type.toLowerCase()) {
-            case 'groq':
-                return new GroqProvider();
-            case 'gemini':
-                return new GeminiProvider();
-            default:
-                // Default to Groq if something goes wrong
-                return new GroqProvider();
+        const editor = await vscode.window.showTextDocument(lastEditor.document, lastEditor.viewColumn);
+        if (action === 'insert') {
+            await insertAtCursor(editor, code);
+        } else if (action === 'replace') {
+            await replaceSelection(editor, code);
+        } else if (action === 'diff') {
+            // Without a selection the code block is proposed as the new content of the whole file
+            const document = editor.document;
+            const range = editor.selection.isEmpty
+                ? new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length))
+                : editor.selection;
+            await previewAndApplyEdit(proposals, document, range, code, 'AI Suggestion ↔ Current');
         }
-    }
-}
+    };
 
-//## Activate Function (with updated message handling)
-export function activate(context: vscode.ExtensionContext) {
+    const sessionStore = new ChatSessionStore(context.workspaceState);
+    const modelCatalog = new ModelCatalog(context.globalState);
     let panel: vscode.WebviewPanel | undefined = undefined;
+    // Conversation shown in the chat panel, saved after every reply; providers trim it to fit their context window
+    let session: ChatSession | undefined = undefined;
+    // Cancels the reply currently being streamed into the chat panel
+    let activeRequest: AbortController | undefined = undefined;
+    // Prompts sent from editor commands wait here until a newly opened chat panel is ready
+    let pendingPrompts: { prompt: string; display: string }[] = [];
+    // Built when the chat panel first opens, then kept current until the extension stops
+    let workspaceIndex: WorkspaceIndex | undefined = undefined;
+    const getWorkspaceIndex = () => {
+        if (!workspaceIndex) {
+            workspaceIndex = WorkspaceIndex.create();
+            context.subscriptions.push(workspaceIndex);
+        }
+        return workspaceIndex;
+    };
+    // Snippets cited under chat replies; the panel can only open these, by id
+    const citations = new Map<string, WorkspaceSnippet>();
+    let citationCount = 0;
 
-    const disposable = vscode.commands.registerCommand('codesuggestion.getCode', () => {
+    const showChatPanel = (restored?: ChatSession) => {
+        if (restored) {
+            activeRequest?.abort();
+            session = restored;
+        }
         if (panel) {
             panel.reveal(vscode.ViewColumn.Two);
+            if (restored) {
+                panel.webview.postMessage({ command: 'loadSession', session: restored });
+            }
             return;
         }
 
         panel = vscode.window.createWebviewPanel(
             'codeChat', 'AI Code Assistant', vscode.ViewColumn.Two,
-            { enableScripts: true, retainContextWhenHidden: true }
+            { enableScripts: true, retainContextWhenHidden: true, localResourceRoots: [getVendorRoot(context.extensionUri)] }
         );
 
-        panel.webview.html = getWebviewContent();
+        panel.webview.html = getWebviewContent(panel.webview, context.extensionUri);
+        // Indexing starts while the user types the first question
+        if (getContextSettings().enabled) {
+            getWorkspaceIndex();
+        }
 
-        panel.onDidDispose(() => { panel = undefined; }, null, context.subscriptions);
+        panel.onDidDispose(() => {
+            activeRequest?.abort();
+            panel = undefined;
+            session = undefined;
+            pendingPrompts = [];
+            citations.clear();
+        }, null, context.subscriptions);
 
-        // UPDATED: Handle messages with both provider and model info
         panel.webview.onDidReceiveMessage(
             async message => {
-                if (message.command === 'sendMessage') {
+                if (message.command === 'ready') {
+                    if (session) {
+                        panel?.webview.postMessage({ command: 'loadSession', session });
+                    }
+                    for (const pending of pendingPrompts) {
+                        panel?.webview.postMessage({ command: 'submitPrompt', ...pending });
+                    }
+                    pendingPrompts = [];
+                } else if (message.command === 'sendMessage') {
                     const { prompt, provider, model } = message;
-                    const llmProvider = LLMFactory.getProvider(provider);
-                    const response = await llmProvider.generateResponse(prompt, model);
+                    const llmProvider = FallbackProvider.create(provider);
+                    // "New Chat" and reopening replace the session, so a reply that is
+                    // still streaming lands in the conversation it belongs to
+                    const conversation = session ?? createChatSession(provider, model);
+                    session = conversation;
+                    if (conversation.messages.length === 0) {
+                        conversation.title = titleFromPrompt(prompt);
+                    }
+                    conversation.messages.push({ role: 'user', content: prompt });
+
+                    const request = new AbortController();
+                    activeRequest = request;
+                    panel?.webview.postMessage({ command: 'streamStart' });
+
+                    // Relevant workspace code goes with this turn only; the session keeps what the user typed
+                    const { enabled, maxSnippets } = getContextSettings();
+                    let snippets: WorkspaceSnippet[] = [];
+                    if (enabled) {
+                        // A failed search costs the question its context, not its answer
+                        snippets = await getWorkspaceIndex().search(prompt, maxSnippets).catch(error => {
+                            console.error('Workspace search failed:', error);
+                            return [];
+                        });
+                    }
+                    const requestMessages = [...conversation.messages.slice(0, -1), withWorkspaceContext(prompt, snippets)];
+                    const sources = snippets.map(snippet => {
+                        const id = String(++citationCount);
+                        citations.set(id, snippet);
+                        return { id, label: `${vscode.workspace.asRelativePath(snippet.uri)}:${snippet.startLine + 1}-${snippet.endLine + 1}` };
+                    });
+
+                    let text = '';
+                    let failure: LLMError | undefined;
+                    try {
+                        for await (const chunk of llmProvider.streamResponse(requestMessages, model, request.signal)) {
+                            text += chunk;
+                            panel?.webview.postMessage({ command: 'streamChunk', text: chunk });
+                        }
+                    } catch (error) {
+                        failure = toLLMError(error, provider);
+                    }
+                    if (activeRequest === request) {
+                        activeRequest = undefined;
+                    }
 
+                    if (!text && !request.signal.aborted && !failure) {
+                        text = "Sorry, I couldn't get a response.";
+                        panel?.webview.postMessage({ command: 'streamChunk', text });
+                    }
+                    // A reply that failed or was stopped before any output is dropped together with its question
+                    if (text) {
+                        conversation.messages.push({ role: 'assistant', content: text });
+                    } else {
+                        conversation.messages.pop();
+                    }
                     panel?.webview.postMessage({
-                        command: 'receiveMessage',
-                        text: response || "Sorry, I couldn't get a response."
+                        command: 'streamEnd',
+                        stopped: request.signal.aborted,
+                        error: failure && { kind: failure.kind, message: failure.describe() },
+                        answeredBy: llmProvider.failedOver && llmProvider.answeredBy ? describeAnswer(llmProvider.answeredBy) : undefined,
+                        usage: llmProvider.answeredBy?.usage && describeUsage(llmProvider.answeredBy.provider, llmProvider.answeredBy.model, llmProvider.answeredBy.usage),
+                        citations: sources
                     });
+
+                    if (conversation.messages.length > 0) {
+                        conversation.provider = provider;
+                        conversation.model = model;
+                        conversation.updatedAt = Date.now();
+                        await sessionStore.save(conversation);
+                    }
+                } else if (message.command === 'listModels') {
+                    const { models, error } = await modelCatalog.getModels(message.provider, message.refresh === true);
+                    panel?.webview.postMessage({ command: 'models', provider: message.provider, models, error });
+                } else if (message.command === 'openCitation') {
+                    const snippet = citations.get(message.id);
+                    if (snippet) {
+                        try {
+                            const document = await vscode.workspace.openTextDocument(snippet.uri);
+                            // The file may have shrunk since it was cited
+                            const endLine = Math.min(snippet.endLine, document.lineCount - 1);
+                            const range = new vscode.Range(Math.min(snippet.startLine, endLine), 0, endLine, document.lineAt(endLine).text.length);
+                            const editor = await vscode.window.showTextDocument(document, { viewColumn: lastEditor?.viewColumn ?? vscode.ViewColumn.One, selection: range });
+                            editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+                        } catch (error) {
+                            // e.g. the file was deleted or renamed since it was cited
+                            vscode.window.showErrorMessage(`Could not open ${vscode.workspace.asRelativePath(snippet.uri)}: ${(error as Error).message}`);
+                        }
+                    }
+                } else if (message.command === 'stopGeneration') {
+                    activeRequest?.abort();
+                } else if (message.command === 'clearHistory') {
+                    activeRequest?.abort();
+                    session = undefined;
+                } else if (message.command === 'browseSessions') {
+                    vscode.commands.executeCommand('codesuggestion.browseChatSessions');
+                } else if (message.command === 'codeAction') {
+                    await applyCodeBlock(message.action, message.code);
                 }
             },
             undefined,
             context.subscriptions
         );
-    });
+    };
 
-    context.subscriptions.push(disposable);
+    // Sends a prompt through the chat panel as if the user had typed it; `display` is what the chat shows
+    const askInChat = (prompt: string, display: string) => {
+        const isOpen = panel !== undefined;
+        showChatPanel();
+        if (isOpen) {
+            panel?.webview.postMessage({ command: 'submitPrompt', prompt, display });
+        } else {
+            pendingPrompts.push({ prompt, display });
+        }
+    };
 
-    // NEW: Command to generate workflow diagram
     context.subscriptions.push(
-        vscode.commands.registerCommand('codesuggestion.generateWorkflowDiagram', async () => {
-            const editor = vscode.window.activeTextEditor;
-            if (!editor) {
-                vscode.window.showErrorMessage('No active editor found. Please select some code to generate a workflow diagram.');
+        vscode.commands.registerCommand('codesuggestion.getCode', () => showChatPanel())
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('codesuggestion.rebuildWorkspaceIndex', async () => {
+            const index = getWorkspaceIndex();
+            await index.rebuild();
+            vscode.window.showInformationMessage(`Indexed ${index.fileCount} files for AI chat.`);
+        })
+    );
+
+    context.subscriptions.push(
+        UsageStatusBar.create(),
+        vscode.commands.registerCommand('codesuggestion.showUsage', () => UsagePanel.show()),
+        vscode.commands.registerCommand('codesuggestion.resetUsage', async () => {
+            const choice = await vscode.window.showWarningMessage('Delete all recorded token counts and costs?', { modal: true }, 'Reset');
+            if (choice === 'Reset') {
+                await UsageStore.reset();
+            }
+        })
+    );
+
+    // Vendor model lists are cached for a day; settings that change what a provider offers drop its list
+    const modelSettings: Record<string, string[]> = {
+        groq: ['codeAssistant.customModels'],
+        gemini: ['codeAssistant.customModels'],
+        gpt: ['codeAssistant.customModels', 'codeAssistant.gpt'],
+        ollama: ['codeAssistant.customModels', 'codeAssistant.ollama']
+    };
+    context.subscriptions.push(
+        vscode.commands.registerCommand('codesuggestion.refreshModels', async () => {
+            await modelCatalog.clear();
+            panel?.webview.postMessage({ command: 'modelsChanged' });
+        }),
+        vscode.workspace.onDidChangeConfiguration(async event => {
+            const changed = Object.keys(modelSettings).filter(provider => modelSettings[provider].some(section => event.affectsConfiguration(section)));
+            for (const provider of changed) {
+                await modelCatalog.clear(provider);
+            }
+            if (changed.length > 0) {
+                panel?.webview.postMessage({ command: 'modelsChanged' });
+            }
+        })
+    );
+
+    const runSelectionCommand = async (command: SelectionCommand) => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            vscode.window.showErrorMessage(`No active editor found. Please select some code to run "${command.title}".`);
+            return;
+        }
+        if (editor.selection.isEmpty) {
+            vscode.window.showErrorMessage(`No code selected. Please select some code to run "${command.title}".`);
+            return;
+        }
+
+        const prompt = buildSelectionPrompt(command, editor);
+        const document = editor.document;
+        const range = editor.selection;
+        if (command.output === 'chat') {
+            askInChat(prompt, `${command.title}: ${vscode.workspace.asRelativePath(document.uri)}, lines ${range.start.line + 1}-${range.end.line + 1}`);
+            return;
+        }
+
+        const provider = FallbackProvider.create(
+            vscode.workspace.getConfiguration('codeAssistant').get<string>('activeModel', 'groq')
+        );
+        let response: string | undefined;
+        try {
+            response = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `AI: ${command.title}...`, cancellable: true },
+                async (_progress, token) => {
+                    const request = new AbortController();
+                    token.onCancellationRequested(() => request.abort());
+                    const text = await collectResponse(provider, userMessage(prompt), undefined, request.signal);
+                    return token.isCancellationRequested ? undefined : text;
+                }
+            );
+        } catch (error) {
+            await showLLMError(error, `running "${command.title}"`);
+            return;
+        }
+        if (!response) {
+            return;
+        }
+        showFallbackNotice(provider);
+        await previewAndApplyEdit(proposals, document, range, extractCodeBlock(response), `${command.title}: Current ↔ AI Proposal`);
+    };
+
+    for (const command of SELECTION_COMMANDS) {
+        context.subscriptions.push(
+            vscode.commands.registerCommand(command.command, () => runSelectionCommand(command))
+        );
+    }
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('codesuggestion.browseChatSessions', async () => {
+            if (sessionStore.list().length === 0) {
+                vscode.window.showInformationMessage('No saved chat sessions yet.');
                 return;
             }
+            const selected = await browseChatSessions(sessionStore);
+            if (selected) {
+                showChatPanel(selected);
+            }
+        })
+    );
 
-            const selection = editor.selection;
-            const selectedText = editor.document.getText(selection);
+    context.subscriptions.push(
+        vscode.languages.registerInlineCompletionItemProvider({ pattern: '**' }, new AICompletionProvider())
+    );
 
-            if (!selectedText) {
-                vscode.window.showErrorMessage('No code selected. Please select some code to generate a workflow diagram.');
+    // NEW: Command to generate workflow diagram
+    // Called from the editor (selection or active file) or from the Explorer with the clicked file/folder
+    context.subscriptions.push(
+        vscode.commands.registerCommand('codesuggestion.generateWorkflowDiagram', async (resource?: vscode.Uri) => {
+            const editor = resource ? undefined : vscode.window.activeTextEditor;
+            const hasSelection = !!editor && !editor.selection.isEmpty;
+            const target = await resolveDiagramTarget(resource ?? editor?.document.uri);
+            if (!target) {
+                vscode.window.showErrorMessage('No active editor found. Please select some code or a file to generate a diagram.');
                 return;
             }
 
-            const providerType = vscode.workspace.getConfiguration('codeAssistant').get<string>('activeModel', 'groq');
-            const provider = LLMFactory.getProvider(providerType);
+            const type = await pickDiagramType(hasSelection, target);
+            if (!type) {
+                return;
+            }
 
+            const providerType = vscode.workspace.getConfiguration('codeAssistant').get<string>('activeModel', 'groq');
+            const provider = FallbackProvider.create(providerType);
+            const title = type.scope === 'files' ? `${type.label}: ${vscode.workspace.asRelativePath(target.uri)}` : type.label;
+            const diagramPanel = DiagramPanel.create(context.extensionUri, title);
             try {
-                const prompt = `You are an expert code analysis tool. Your task is to convert a given code block into a Mermaid.js flowchart syntax.
-
-CRITICAL INSTRUCTIONS:
-1. Your response MUST start with 'graph TD' or 'graph LR'.
-2. Your response MUST contain ONLY the valid Mermaid.js code.
-3. Do NOT include ANY explanations, apologies, or markdown fences like \`\`\`mermaid.
-4. Analyze the code for logical branches (if/else), loops, and error handling (try/except) to create the flowchart.
-
-Here is the code to analyze:
-\`\`\`
-${selectedText}
-\`\`\``;
-                const mermaidSyntax = await provider.generateResponse(prompt);
-
-                console.log("--- LLM Raw Output for Mermaid ---");
-                console.log(mermaidSyntax);
-                console.log("---------------------------------");
-
-                // Ensure the webview panel is created and updated with the generated Mermaid.js syntax
-                const panel = vscode.window.createWebviewPanel(
-                    'workflowDiagram', // Identifier
-                    'Workflow Diagram', // Title
-                    vscode.ViewColumn.One, // Editor column to show the new webview panel
-                    { enableScripts: true } // Options
-                );
+                const result = await vscode.window.withProgress(
+                    { location: vscode.ProgressLocation.Notification, title: `AI: Generating ${type.label.toLowerCase()}...`, cancellable: true },
+                    async (progress, token) => {
+                        if (type.id === 'dependencies') {
+                            const source = await buildDependencyGraph(target);
+                            return { source, error: await diagramPanel.validate(source), attempts: 0 };
+                        }
 
-                const sanitizedResponse = mermaidSyntax
-                    .replace(/```mermaid/g, '') // Remove markdown fences
-                    .replace(/```/g, '') // Remove any remaining fences
-                    .trim(); // Remove extra whitespace
+                        // Closing the panel cancels the generation as well
+                        const cancellation = new vscode.CancellationTokenSource();
+                        const subscriptions = [
+                            token.onCancellationRequested(() => cancellation.cancel()),
+                            diagramPanel.onDidDispose(() => cancellation.cancel())
+                        ];
+                        try {
+                            const prompt = await buildDiagramPrompt(type, editor, target);
+                            return await generateDiagram(provider, userMessage(prompt), source => diagramPanel.validate(source), cancellation.token, progress);
+                        } finally {
+                            subscriptions.forEach(subscription => subscription.dispose());
+                            cancellation.dispose();
+                        }
+                    }
+                );
+                if (diagramPanel.isDisposed) {
+                    return;
+                }
+                if (type.scope === 'selection' && editor) {
+                    diagramPanel.linkNodes(editor.document, extractNodeLines(result.source));
+                }
+                await diagramPanel.render(result);
+                showFallbackNotice(provider);
+                if (result.error && result.attempts > 0) {
+                    vscode.window.showWarningMessage(`The generated diagram is not valid Mermaid after ${result.attempts} attempt${result.attempts > 1 ? 's' : ''}. See the diagram panel for details.`);
+                }
+            } catch (error) {
+                diagramPanel.dispose();
+                if (!(error instanceof vscode.CancellationError)) {
+                    await showLLMError(error, `generating ${type.label.toLowerCase()}`);
+                }
+            }
+        })
+    );
 
-                console.log("--- Sanitized Mermaid Output ---");
-                console.log(sanitizedResponse);
-                console.log("--------------------------------");
+    // Anti-patterns found by detectPatterns show up in the Problems view, recommendations as quick fixes
+    const patternDiagnostics = new PatternDiagnostics();
+    context.subscriptions.push(
+        patternDiagnostics,
+        vscode.languages.registerCodeActionsProvider({ pattern: '**' }, patternDiagnostics, {
+            providedCodeActionKinds: PatternDiagnostics.providedCodeActionKinds
+        }),
+        vscode.commands.registerCommand(PREVIEW_RECOMMENDATION_COMMAND, async (uri: vscode.Uri, range: vscode.Range, example: string, title: string) => {
+            const document = await vscode.workspace.openTextDocument(uri);
+            await previewAndApplyEdit(proposals, document, range, example, `${title}: Current ↔ Recommendation`);
+        })
+    );
 
-                // NEW: Validate the Mermaid.js syntax before rendering
-                if (!sanitizedResponse.startsWith('graph TD') && !sanitizedResponse.startsWith('graph LR')) {
-                    vscode.window.showErrorMessage('Invalid Mermaid.js syntax generated. Please try again.');
-                    return;
+    // Whole files, folders or the workspace, listed in the "AI Pattern Report" view
+    const patternReport = new PatternReportProvider();
+    const patternReportView = vscode.window.createTreeView('codeAssistant.patternReport', { treeDataProvider: patternReport, showCollapseAll: true });
+    const analyzeFiles = async (scope: string, listFiles: () => Promise<WorkspaceFiles>) => {
+        const providerType = vscode.workspace.getConfiguration('codeAssistant').get<string>('activeModel', 'groq');
+        try {
+            const report = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: `AI: Analyzing patterns in ${scope}`, cancellable: true },
+                async (progress, token) => {
+                    progress.report({ message: 'Finding files...' });
+                    const { files, skipped } = await listFiles();
+                    return runPatternAnalysis(providerType, files, skipped, scope, patternDiagnostics, progress, token);
                 }
+            );
+            patternReport.setReport(report);
+            patternReportView.message = describeReport(report);
+            await vscode.commands.executeCommand('codeAssistant.patternReport.focus');
+            if (report.error) {
+                await showLLMError(report.error, 'analyzing patterns');
+            } else if (report.filesAnalyzed === 0 && !report.cancelled) {
+                vscode.window.showWarningMessage(`No source files to analyze in ${scope}.`);
+            }
+        } catch (error) {
+            await showLLMError(error, 'analyzing patterns');
+        }
+    };
+
+    context.subscriptions.push(
+        patternReportView,
+        vscode.commands.registerCommand('codesuggestion.analyzeFilePatterns', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                vscode.window.showErrorMessage('No active editor found.');
+                return;
+            }
+            const uri = editor.document.uri;
+            await analyzeFiles(vscode.workspace.asRelativePath(uri), async () => ({ files: [uri], skipped: [] }));
+        }),
+        vscode.commands.registerCommand('codesuggestion.analyzeFolderPatterns', async (resource?: vscode.Uri) => {
+            const folder = resource ?? (await vscode.window.showOpenDialog({
+                canSelectFiles: false,
+                canSelectFolders: true,
+                defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+                openLabel: 'Analyze Patterns'
+            }))?.[0];
+            if (!folder) {
+                return;
+            }
+            await analyzeFiles(`${vscode.workspace.asRelativePath(folder)}/`, () => findWorkspaceFiles(folder, getAnalysisLimits()));
+        }),
+        vscode.commands.registerCommand('codesuggestion.analyzeWorkspacePatterns', async () => {
+            if (!vscode.workspace.workspaceFolders?.length) {
+                vscode.window.showErrorMessage('Open a folder or workspace first.');
+                return;
+            }
+            await analyzeFiles('the workspace', () => findWorkspaceFiles(undefined, getAnalysisLimits()));
+        }),
+        vscode.commands.registerCommand('codesuggestion.patternReport.groupBy', async () => {
+            const choice = await vscode.window.showQuickPick<vscode.QuickPickItem & { grouping: ReportGrouping }>([
+                { label: 'File', description: 'Findings per file', grouping: 'file' },
+                { label: 'Severity', description: 'Anti-patterns by severity, then file', grouping: 'severity' },
+                { label: 'Type', description: 'Anti-patterns, design patterns and recommendations, then file', grouping: 'type' }
+            ], { placeHolder: 'Group the pattern report by' });
+            if (choice) {
+                patternReport.setGrouping(choice.grouping);
+            }
+        }),
+        vscode.commands.registerCommand('codesuggestion.patternReport.export', async () => {
+            if (!patternReport.currentReport) {
+                vscode.window.showInformationMessage('There is no pattern report to export yet.');
+                return;
+            }
+            await exportPatternReport(patternReport.currentReport, context.extension.packageJSON.version);
+        }),
+        vscode.commands.registerCommand('codesuggestion.patternReport.clear', () => {
+            patternReport.currentReport?.findings.forEach(finding => patternDiagnostics.clear(finding.uri));
+            patternReport.setReport(undefined);
+            patternReportView.message = undefined;
+        })
+    );
+
+    // Add this in your activate function, with the other command registrations
+    context.subscriptions.push(
+        vscode.commands.registerCommand('codesuggestion.detectPatterns', async () => {
+            const editor = vscode.window.activeTextEditor;
+            if (!editor) {
+                vscode.window.showErrorMessage('No active editor found.');
+                return;
+            }
+
+            const selection = editor.selection;
+            const code = editor.document.getText(selection);
+            if (!code) {
+                vscode.window.showErrorMessage('No code selected.');
+                return;
+            }
 
-                panel.webview.html = getWebviewContentWithMermaid(sanitizedResponse);
+            try {
+                // Show loading message
+                vscode.window.showInformationMessage('Analyzing code patterns...');
+                
+                const providerType = vscode.workspace.getConfiguration('codeAssistant').get<string>('activeModel', 'groq');
+                const provider = FallbackProvider.create(providerType);
+
+                const analysisResult = await analyzeCodePatterns(editor.document, selection, provider);
+                console.log('Analysis Result:', analysisResult); // Debug log
+                patternDiagnostics.publish(editor.document, analysisResult.value, selection);
+
+                // Kept as a one-chunk report so it can be exported like the workspace reports
+                const report = createReport(`${vscode.workspace.asRelativePath(editor.document.uri)}, lines ${selection.start.line + 1}-${selection.end.line + 1}`, providerType);
+                addAnalysis(report, editor.document, selection, analysisResult, provider.answeredBy);
+                report.filesAnalyzed = 1;
+                showFallbackNotice(provider);
+                
+                const panel = PatternAnalysisPanel.create(context.extension.packageJSON.version);
+                await panel.render(analysisResult, report);
+                if (analysisResult.partial) {
+                    vscode.window.showWarningMessage('Parts of the pattern analysis did not match the expected format and were left out.');
+                }
             } catch (error) {
-                vscode.window.showErrorMessage(`Error generating workflow diagram: ${(error as Error).message}`);
+                console.error('Pattern Detection Error:', error); // Debug log
+                if (error instanceof StructuredOutputError) {
+                    await PatternAnalysisPanel.create(context.extension.packageJSON.version).showError(error);
+                    return;
+                }
+                await showLLMError(error, 'analyzing patterns');
             }
         })
     );
@@ -186,15 +579,25 @@ ${selectedText}
 
 
 //## Webview Content (with two dropdowns)
-function getWebviewContent(): string {
+export function getWebviewContent(webview: vscode.Webview, extensionUri: vscode.Uri): string {
+    const nonce = getNonce();
+    // Markdown rendering, sanitizing and highlighting run inside the webview from bundled copies
+    const markdownItUri = getVendorUri(webview, extensionUri, 'markdown-it', 'dist', 'browser', 'markdown-it.umd.min.js');
+    const purifyUri = getVendorUri(webview, extensionUri, 'dompurify', 'dist', 'purify.min.js');
+    const highlightUri = getVendorUri(webview, extensionUri, '@highlightjs', 'cdn-assets', 'highlight.min.js');
+
     return `
         <!DOCTYPE html>
         <html lang="en">
         <head>
             <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="${getContentSecurityPolicy(webview, nonce)}">
             <meta name="viewport" content="width=device-width, initial-scale=1.0">
             <title>Code Assistant</title>
-            <style>
+            <script nonce="${nonce}" src="${markdownItUri}"></script>
+            <script nonce="${nonce}" src="${purifyUri}"></script>
+            <script nonce="${nonce}" src="${highlightUri}"></script>
+            <style nonce="${nonce}">
                 /* General Reset */
                 * {
                     margin: 0;
@@ -322,6 +725,187 @@ function getWebviewContent(): string {
                     transform: scale(0.98);
                 }
 
+                #stop-button {
+                    display: none;
+                    margin-left: 10px;
+                    background-color: #b71c1c;
+                }
+
+                #stop-button:hover {
+                    background-color: #c62828;
+                }
+
+                .streaming::after {
+                    content: '▍';
+                    animation: blink 1s step-start infinite;
+                }
+
+                @keyframes blink {
+                    50% { opacity: 0; }
+                }
+
+                .user-message {
+                    white-space: pre-wrap;
+                }
+
+                /* Markdown in assistant replies */
+                .ai-message h1, .ai-message h2, .ai-message h3, .ai-message h4 {
+                    margin: 12px 0 6px;
+                    line-height: 1.3;
+                }
+
+                .ai-message h1 { font-size: 1.3rem; }
+                .ai-message h2 { font-size: 1.15rem; }
+                .ai-message h3, .ai-message h4 { font-size: 1rem; }
+
+                .ai-message p {
+                    margin: 6px 0;
+                }
+
+                .ai-message ul, .ai-message ol {
+                    margin: 6px 0;
+                    padding-left: 24px;
+                }
+
+                .ai-message blockquote {
+                    margin: 6px 0;
+                    padding-left: 10px;
+                    border-left: 3px solid rgba(255, 255, 255, 0.4);
+                    opacity: 0.9;
+                }
+
+                .ai-message table {
+                    margin: 8px 0;
+                    border-collapse: collapse;
+                }
+
+                .ai-message th, .ai-message td {
+                    padding: 4px 8px;
+                    border: 1px solid rgba(255, 255, 255, 0.3);
+                }
+
+                .ai-message a {
+                    color: var(--vscode-textLink-foreground, #8ab4f8);
+                }
+
+                .ai-message :not(pre) > code {
+                    padding: 1px 4px;
+                    border-radius: 4px;
+                    background: rgba(0, 0, 0, 0.3);
+                    font-family: var(--vscode-editor-font-family, 'Consolas', 'Courier New', monospace);
+                }
+
+                /* Syntax highlighting mapped onto the active VS Code theme's token colors */
+                .hljs-keyword, .hljs-selector-tag, .hljs-built_in, .hljs-literal {
+                    color: var(--vscode-symbolIcon-keywordForeground, #569cd6);
+                }
+
+                .hljs-string, .hljs-regexp, .hljs-addition, .hljs-attribute {
+                    color: var(--vscode-debugTokenExpression-string, #ce9178);
+                }
+
+                .hljs-number, .hljs-symbol {
+                    color: var(--vscode-debugTokenExpression-number, #b5cea8);
+                }
+
+                .hljs-comment, .hljs-quote, .hljs-meta {
+                    color: var(--vscode-editorCodeLens-foreground, #6a9955);
+                    font-style: italic;
+                }
+
+                .hljs-title, .hljs-title.function_, .hljs-section {
+                    color: var(--vscode-symbolIcon-functionForeground, #dcdcaa);
+                }
+
+                .hljs-type, .hljs-title.class_, .hljs-class .hljs-title {
+                    color: var(--vscode-symbolIcon-classForeground, #4ec9b0);
+                }
+
+                .hljs-variable, .hljs-params, .hljs-property, .hljs-attr, .hljs-name {
+                    color: var(--vscode-symbolIcon-variableForeground, #9cdcfe);
+                }
+
+                .hljs-deletion {
+                    color: var(--vscode-errorForeground, #f48771);
+                }
+
+                .code-block {
+                    margin: 10px 0;
+                    border: 1px solid #333;
+                    border-radius: 6px;
+                    overflow: hidden;
+                    text-align: left;
+                }
+
+                .code-toolbar {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 6px;
+                    align-items: center;
+                    padding: 6px 8px;
+                    background: #252525;
+                }
+
+                .code-toolbar .code-language {
+                    flex-grow: 1;
+                    font-size: 0.8rem;
+                    opacity: 0.7;
+                }
+
+                .code-toolbar button {
+                    padding: 4px 10px;
+                    font-size: 0.8rem;
+                    background-color: #333;
+                }
+
+                .code-toolbar button:hover {
+                    background-color: #444;
+                }
+
+                .code-block pre {
+                    margin: 0;
+                    padding: 10px;
+                    background: var(--vscode-textCodeBlock-background, #1a1a1a);
+                    color: var(--vscode-editor-foreground, #d4d4d4);
+                    overflow-x: auto;
+                    font-family: var(--vscode-editor-font-family, 'Consolas', 'Courier New', monospace);
+                    font-size: 0.9rem;
+                }
+
+                .error-message {
+                    background-color: #7f1d1d;
+                }
+
+                .error-note {
+                    display: block;
+                    margin-top: 8px;
+                    padding: 8px 10px;
+                    border-left: 3px solid #ef4444;
+                    background: rgba(0, 0, 0, 0.25);
+                    font-size: 0.9rem;
+                    white-space: pre-wrap;
+                }
+
+                .citations {
+                    margin-top: 8px;
+                    font-size: 0.8rem;
+                }
+
+                .citations button {
+                    padding: 0 8px 0 0;
+                    background: none;
+                    color: #4fc3f7;
+                    font-size: 0.8rem;
+                    text-decoration: underline;
+                }
+
+                .stopped-note, .fallback-note, .usage-note {
+                    display: block;
+                    margin-top: 8px;
+                    font-size: 0.8rem;
+                    opacity: 0.7;
+                }
+
                 /* Scrollbar Styling */
                 #messages::-webkit-scrollbar {
                     width: 8px;
@@ -344,9 +928,14 @@ function getWebviewContent(): string {
                     <select id="provider-select">
                         <option value="groq">Groq</option>
                         <option value="gemini">Gemini</option>
+                        <option value="gpt">OpenAI / Compatible</option>
+                        <option value="ollama">Ollama (local)</option>
                     </select>
                     <span>Model:</span>
                     <select id="model-select"></select>
+                    <button id="refresh-models-button" title="Ask the provider for its current models">↻</button>
+                    <button id="new-chat-button" title="Start a new conversation">New Chat</button>
+                    <button id="history-button" title="Reopen, rename or delete past conversations">History</button>
                 </div>
                 <div id="messages">
                     <div class="ai-message">Hello! Select a provider and model, then ask me anything.</div>
@@ -354,101 +943,330 @@ function getWebviewContent(): string {
                 <div id="input-container">
                     <input type="text" id="prompt-input" placeholder="Ask for code or programming help...">
                     <button id="send-button">Send</button>
+                    <button id="stop-button" title="Stop generating">Stop</button>
                 </div>
             </div>
 
-            <script>
+            <script nonce="${nonce}">
                 const vscode = acquireVsCodeApi();
                 const providerSelect = document.getElementById('provider-select');
                 const modelSelect = document.getElementById('model-select');
                 
-                const models = {
-                    groq: [
-                        { id: 'llama-3.1-8b-instant', name: 'Llama 3.1 (8B)' },
-                        { id: 'llama-3.1-405b-reasoning', name: 'Llama 3.1 (405B)' },
-                        { id: 'gemma2-9b-it', name: 'Gemma 2 (9B)' }
-                    ],
-                    gemini: [
-                        { id: 'gemini-1.5-pro', name: 'Gemini 1.5 Pro' },
-                        // UPDATED: Removed the '-latest' suffix
-                        { id: 'gemini-1.5-flash', name: 'Gemini 1.5 Flash' }
-                    ]
-                };
-
-                function updateModelOptions() {
+                // Models the extension listed for each provider; asked again after a failure or a refresh
+                const models = {};
+
+                function addModelOption(id, name, disabled) {
+                    const option = document.createElement('option');
+                    option.value = id;
+                    option.textContent = name;
+                    option.disabled = !!disabled;
+                    modelSelect.appendChild(option);
+                }
+
+                // keepSelected holds on to the chosen model while the same provider's list is replaced
+                function updateModelOptions(refresh, keepSelected) {
                     const provider = providerSelect.value;
+                    const selected = keepSelected ? modelSelect.value : '';
                     modelSelect.innerHTML = '';
-                    models[provider].forEach(model => {
-                        const option = document.createElement('option');
-                        option.value = model.id;
-                        option.textContent = model.name;
-                        modelSelect.appendChild(option);
-                    });
+                    if (selected) {
+                        addModelOption(selected, selected);
+                        modelSelect.value = selected;
+                    }
+                    if (models[provider] && !refresh) {
+                        showModelList(provider, models[provider]);
+                        return;
+                    }
+                    addModelOption('', 'Loading models...', true);
+                    if (selected) {
+                        modelSelect.value = selected;
+                    }
+                    vscode.postMessage({ command: 'listModels', provider, refresh: !!refresh });
                 }
 
-                providerSelect.addEventListener('change', updateModelOptions);
-                
+                function showModelList(provider, list, error) {
+                    if (error) {
+                        delete models[provider];
+                    } else {
+                        models[provider] = list;
+                    }
+                    if (providerSelect.value !== provider) {
+                        return;
+                    }
+                    const selected = modelSelect.value;
+                    modelSelect.innerHTML = '';
+                    modelSelect.title = error ? 'Could not list models: ' + error : '';
+                    if (list.length === 0) {
+                        addModelOption('', error ? 'Models unavailable: ' + error : 'No models available', true);
+                        return;
+                    }
+                    list.forEach(model => addModelOption(model.id, model.name));
+                    // The last list the provider returned (or the configured models) stays usable
+                    if (error) {
+                        addModelOption('', 'Could not refresh: ' + error, true);
+                    }
+                    // Keep the model of a reopened conversation selected, even if it is gone
+                    if (selected && !list.some(model => model.id === selected)) {
+                        addModelOption(selected, selected + ' (not available)');
+                    }
+                    if (selected) {
+                        modelSelect.value = selected;
+                    }
+                }
+
+                providerSelect.addEventListener('change', () => updateModelOptions());
+                document.getElementById('refresh-models-button').addEventListener('click', () => updateModelOptions(true, true));
+
                 // Initial population
                 updateModelOptions();
 
                 const messagesDiv = document.getElementById('messages');
                 const input = document.getElementById('prompt-input');
                 const sendButton = document.getElementById('send-button');
+                const stopButton = document.getElementById('stop-button');
+                // The assistant message currently receiving streamed chunks, and its raw text
+                let streamingMessage = null;
+                let streamingText = '';
+
+                const codeActions = [
+                    ['copy', 'Copy'],
+                    ['insert', 'Insert at cursor'],
+                    ['replace', 'Replace selection'],
+                    ['diff', 'Apply as diff']
+                ];
+
+                // Raw HTML in replies is disabled and the rendered output is sanitized again before use
+                const markdown = window.markdownit({ html: false, linkify: true });
+
+                function createCodeBlock(pre, code, language) {
+                    const block = document.createElement('div');
+                    block.className = 'code-block';
+                    const toolbar = document.createElement('div');
+                    toolbar.className = 'code-toolbar';
+                    const label = document.createElement('span');
+                    label.className = 'code-language';
+                    label.textContent = language || 'code';
+                    toolbar.appendChild(label);
+                    codeActions.forEach(([action, title]) => {
+                        const button = document.createElement('button');
+                        button.textContent = title;
+                        button.addEventListener('click', () => vscode.postMessage({ command: 'codeAction', action, code }));
+                        toolbar.appendChild(button);
+                    });
+                    block.appendChild(toolbar);
+                    block.appendChild(pre.cloneNode(true));
+                    return block;
+                }
+
+                function renderAssistantMessage(el, text) {
+                    el.innerHTML = DOMPurify.sanitize(markdown.render(text));
+                    el.querySelectorAll('pre > code').forEach(codeElement => {
+                        const pre = codeElement.parentElement;
+                        const languageClass = Array.from(codeElement.classList).find(c => c.startsWith('language-'));
+                        const language = languageClass ? languageClass.slice('language-'.length) : '';
+                        const code = codeElement.textContent.replace(/\\n$/, '');
+                        if (language && hljs.getLanguage(language)) {
+                            hljs.highlightElement(codeElement);
+                        }
+                        pre.replaceWith(createCodeBlock(pre, code, language));
+                    });
+                }
+
+                // Re-rendering markdown on every chunk is wasteful; do it at most once per frame
+                let renderScheduled = false;
+                function scheduleStreamingRender() {
+                    if (renderScheduled) {
+                        return;
+                    }
+                    renderScheduled = true;
+                    requestAnimationFrame(() => {
+                        renderScheduled = false;
+                        if (streamingMessage) {
+                            renderAssistantMessage(streamingMessage, streamingText);
+                            messagesDiv.scrollTop = messagesDiv.scrollHeight;
+                        }
+                    });
+                }
 
                 function addMessage(text, type) {
                     const el = document.createElement('div');
                     el.className = 'message ' + type;
-                    el.textContent = text;
+                    if (type.startsWith('ai-message') && text) {
+                        renderAssistantMessage(el, text);
+                    } else {
+                        el.textContent = text;
+                    }
                     messagesDiv.appendChild(el);
                     messagesDiv.scrollTop = messagesDiv.scrollHeight;
+                    return el;
+                }
+
+                function setStreaming(active) {
+                    sendButton.style.display = active ? 'none' : '';
+                    stopButton.style.display = active ? 'inline-block' : 'none';
+                }
+
+                // True from sending a prompt until its reply has finished streaming
+                let waitingForReply = false;
+                // Prompts from editor commands that arrived while a reply was still streaming
+                const queuedPrompts = [];
+
+                function submitPrompt(prompt, display) {
+                    waitingForReply = true;
+                    addMessage(display, 'user-message');
+                    vscode.postMessage({ 
+                        command: 'sendMessage', 
+                        prompt,
+                        provider: providerSelect.value,
+                        model: modelSelect.value
+                    });
                 }
 
                 function handleSend() {
                     const text = input.value;
-                    if (text) {
-                        addMessage(text, 'user-message');
-                        vscode.postMessage({ 
-                            command: 'sendMessage', 
-                            prompt: text,
-                            provider: providerSelect.value,
-                            model: modelSelect.value
-                        });
+                    if (text && !waitingForReply) {
+                        submitPrompt(text, text);
                         input.value = '';
                     }
                 }
 
+                const greeting = messagesDiv.innerHTML;
+
+                function resetMessages() {
+                    messagesDiv.innerHTML = greeting;
+                    streamingMessage = null;
+                    waitingForReply = false;
+                    queuedPrompts.length = 0;
+                    setStreaming(false);
+                }
+
+                function selectOption(select, value) {
+                    if (value && !Array.from(select.options).some(option => option.value === value)) {
+                        const option = document.createElement('option');
+                        option.value = value;
+                        option.textContent = value;
+                        select.appendChild(option);
+                    }
+                    select.value = value;
+                }
+
+                function loadSession(session) {
+                    resetMessages();
+                    selectOption(providerSelect, session.provider);
+                    updateModelOptions();
+                    selectOption(modelSelect, session.model);
+                    session.messages.forEach(message => {
+                        addMessage(message.content, message.role === 'user' ? 'user-message' : 'ai-message');
+                    });
+                }
+
+                document.getElementById('new-chat-button').addEventListener('click', () => {
+                    resetMessages();
+                    vscode.postMessage({ command: 'clearHistory' });
+                });
+                document.getElementById('history-button').addEventListener('click', () => {
+                    vscode.postMessage({ command: 'browseSessions' });
+                });
+
                 sendButton.addEventListener('click', handleSend);
+                stopButton.addEventListener('click', () => vscode.postMessage({ command: 'stopGeneration' }));
                 input.addEventListener('keydown', e => { if (e.key === 'Enter') handleSend(); });
 
                 window.addEventListener('message', event => {
-                    if (event.data.command === 'receiveMessage') {
-                        addMessage(event.data.text, 'ai-message');
+                    const message = event.data;
+                    switch (message.command) {
+                        case 'streamStart':
+                            streamingMessage = addMessage('', 'ai-message streaming');
+                            streamingText = '';
+                            setStreaming(true);
+                            break;
+                        case 'streamChunk':
+                            if (streamingMessage) {
+                                streamingText += message.text;
+                                scheduleStreamingRender();
+                            }
+                            break;
+                        case 'loadSession':
+                            loadSession(message.session);
+                            break;
+                        case 'streamEnd':
+                            if (streamingMessage) {
+                                streamingMessage.classList.remove('streaming');
+                                renderAssistantMessage(streamingMessage, streamingText);
+                                if (message.error) {
+                                    // Failures are shown as errors, never as if the model had said them
+                                    if (!streamingText) {
+                                        streamingMessage.classList.add('error-message');
+                                    }
+                                    const note = document.createElement('span');
+                                    note.className = 'error-note';
+                                    note.textContent = message.error.message;
+                                    streamingMessage.appendChild(note);
+                                } else if (message.stopped) {
+                                    const note = document.createElement('span');
+                                    note.className = 'stopped-note';
+                                    note.textContent = '(stopped)';
+                                    streamingMessage.appendChild(note);
+                                }
+                                // Another provider of the fallback chain answered instead of the selected one
+                                if (message.answeredBy) {
+                                    const note = document.createElement('span');
+                                    note.className = 'fallback-note';
+                                    note.textContent = message.answeredBy;
+                                    streamingMessage.appendChild(note);
+                                }
+                                // Workspace code sent along with the question; clicking opens it
+                                if (message.citations && message.citations.length > 0 && streamingText) {
+                                    const sources = document.createElement('div');
+                                    sources.className = 'citations';
+                                    sources.textContent = 'Sources: ';
+                                    message.citations.forEach((citation, index) => {
+                                        const link = document.createElement('button');
+                                        link.textContent = '[' + (index + 1) + '] ' + citation.label;
+                                        link.title = 'Open ' + citation.label;
+                                        link.addEventListener('click', () => vscode.postMessage({ command: 'openCitation', id: citation.id }));
+                                        sources.appendChild(link);
+                                    });
+                                    streamingMessage.appendChild(sources);
+                                }
+                                // How much context was sent and what the reply cost
+                                if (message.usage) {
+                                    const note = document.createElement('span');
+                                    note.className = 'usage-note';
+                                    note.textContent = message.usage;
+                                    streamingMessage.appendChild(note);
+                                }
+                            }
+                            streamingMessage = null;
+                            waitingForReply = false;
+                            setStreaming(false);
+                            if (queuedPrompts.length > 0) {
+                                const next = queuedPrompts.shift();
+                                submitPrompt(next.prompt, next.display);
+                            }
+                            break;
+                        case 'models':
+                            showModelList(message.provider, message.models, message.error);
+                            break;
+                        case 'modelsChanged':
+                            // Settings or the cached lists changed; ask again for the provider on screen
+                            Object.keys(models).forEach(provider => delete models[provider]);
+                            updateModelOptions(false, true);
+                            break;
+                        case 'submitPrompt':
+                            if (waitingForReply) {
+                                queuedPrompts.push(message);
+                            } else {
+                                submitPrompt(message.prompt, message.display);
+                            }
+                            break;
                     }
                 });
+
+                vscode.postMessage({ command: 'ready' });
             </script>
         </body>
         </html>
     `;
 }
 
-// NEW: Function to generate webview content with Mermaid.js for rendering the workflow diagram
-function getWebviewContentWithMermaid(mermaidSyntax: string): string {
-    return `<!DOCTYPE html>
-    <html lang="en">
-    <head>
-        <meta charset="UTF-8">
-        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-        <title>Workflow Diagram</title>
-        <script src="https://cdn.jsdelivr.net/npm/mermaid/dist/mermaid.min.js"></script>
-        <script>mermaid.initialize({ startOnLoad: true });</script>
-    </head>
-    <body>
-        <h1>Generated Workflow Diagram</h1>
-        <div class="mermaid">
-            ${mermaidSyntax}
-        </div>
-    </body>
-    </html>`;
-}
-
 export function deactivate() {}
@@ -0,0 +1,192 @@
+import * as vscode from 'vscode';
+import { getProviderName } from './apiKeys';
+import { LLMError, toLLMError } from './errors';
+import { ChatMessage, GenerationOptions, isStreamingProvider, LLMFactory, LLMResponse, StreamingLLMProvider } from './providers';
+import { TokenUsage } from './usage';
+
+// The provider that produced a reply, and why the ones before it in the chain did not
+export interface ProviderAnswer {
+    provider: string;
+    model: string;
+    // e.g. "Groq: Rate limit reached"; empty when the selected provider answered
+    passedOver: string[];
+    // Known once the reply is complete
+    usage?: TokenUsage;
+}
+
+function getFallbackSettings() {
+    const config = vscode.workspace.getConfiguration('codeAssistant.fallback');
+    return {
+        providers: config.get<string[]>('providers', []),
+        failureThreshold: Math.max(1, config.get<number>('failureThreshold', 2)),
+        cooldownMs: Math.max(0, config.get<number>('cooldownSeconds', 120)) * 1000
+    };
+}
+
+//## Health of each provider across requests
+// A provider whose requests keep failing with errors worth failing over on (rate limits, timeouts,
+// network and server errors) is skipped until its cool-down ends.
+class ProviderHealth {
+    private readonly failures = new Map<string, number>();
+    private readonly coolingUntil = new Map<string, number>();
+
+    isCoolingDown(provider: string): boolean {
+        return (this.coolingUntil.get(provider) ?? 0) > Date.now();
+    }
+
+    recordSuccess(provider: string): void {
+        this.failures.delete(provider);
+        this.coolingUntil.delete(provider);
+    }
+
+    recordFailure(error: LLMError): void {
+        const { failureThreshold, cooldownMs } = getFallbackSettings();
+        const failures = (this.failures.get(error.provider) ?? 0) + 1;
+        this.failures.set(error.provider, failures);
+        if (failures >= failureThreshold) {
+            // A server that asks for a longer pause gets it
+            const pauseMs = Math.max(cooldownMs, error.retryAfterMs ?? 0);
+            this.coolingUntil.set(error.provider, Date.now() + pauseMs);
+        }
+    }
+}
+
+const health = new ProviderHealth();
+
+//## Provider that fails over along `codeAssistant.fallback.providers`
+/**
+ * Tries the selected provider first and then the rest of the chain, each with its default model.
+ * Only rate-limit, timeout, network and server errors of the selected provider move on to the next
+ * provider; anything else (a missing API key, an unknown model) ends the request as before. A
+ * fallback that fails for any reason is passed over. A stream only fails over until its first
+ * chunk has arrived.
+ */
+export class FallbackProvider implements StreamingLLMProvider {
+    // Set once a provider has answered the latest request (for streams, when its first chunk arrives)
+    answeredBy: ProviderAnswer | undefined;
+
+    private constructor(private readonly primary: string, private readonly chain: string[]) {}
+
+    // `fallbacks` defaults to `codeAssistant.fallback.providers`
+    static create(primary: string, fallbacks = getFallbackSettings().providers): FallbackProvider {
+        return new FallbackProvider(primary, [primary, ...fallbacks.filter(provider => provider !== primary)]);
+    }
+
+    // Whether a provider other than the selected one answered
+    get failedOver(): boolean {
+        return this.answeredBy !== undefined && this.answeredBy.provider !== this.primary;
+    }
+
+    async generateResponse(messages: ChatMessage[], model?: string, options?: GenerationOptions): Promise<LLMResponse> {
+        // One instance serves several requests, e.g. every chunk of a pattern analysis
+        this.answeredBy = undefined;
+        const passedOver: string[] = [];
+        let lastError: LLMError | undefined;
+        for (const provider of this.candidates(passedOver)) {
+            const providerModel = this.modelFor(provider, model);
+            try {
+                const response = await LLMFactory.getProvider(provider).generateResponse(messages, providerModel, options);
+                this.answer(provider, providerModel, passedOver, response.usage);
+                return response;
+            } catch (error) {
+                lastError = this.failOver(toLLMError(error, provider), passedOver);
+            }
+        }
+        throw lastError;
+    }
+
+    async *streamResponse(messages: ChatMessage[], model?: string, signal?: AbortSignal): AsyncGenerator<string, TokenUsage | undefined> {
+        this.answeredBy = undefined;
+        const passedOver: string[] = [];
+        let lastError: LLMError | undefined;
+        for (const provider of this.candidates(passedOver)) {
+            const providerModel = this.modelFor(provider, model);
+            const llmProvider = LLMFactory.getProvider(provider);
+            let answer: ProviderAnswer | undefined;
+            let usage: TokenUsage | undefined;
+            try {
+                if (isStreamingProvider(llmProvider)) {
+                    // Read by hand so that the stream's usage, its return value, is not lost
+                    const stream = llmProvider.streamResponse(messages, providerModel, signal);
+                    for (let next = await stream.next(); ; next = await stream.next()) {
+                        if (next.done) {
+                            usage = next.value;
+                            break;
+                        }
+                        if (!answer) {
+                            answer = this.answer(provider, providerModel, passedOver);
+                        }
+                        yield next.value;
+                    }
+                } else {
+                    const response = await llmProvider.generateResponse(messages, providerModel, { signal });
+                    answer = this.answer(provider, providerModel, passedOver);
+                    usage = response.usage;
+                    yield response.text;
+                }
+                if (!answer && !signal?.aborted) {
+                    answer = this.answer(provider, providerModel, passedOver);
+                }
+                if (answer) {
+                    answer.usage = usage;
+                }
+                return usage;
+            } catch (error) {
+                const llmError = toLLMError(error, provider);
+                // Part of the reply has been shown already, or the user stopped it
+                if (answer || signal?.aborted) {
+                    throw llmError;
+                }
+                lastError = this.failOver(llmError, passedOver);
+            }
+        }
+        throw lastError;
+    }
+
+    private answer(provider: string, model: string, passedOver: string[], usage?: TokenUsage): ProviderAnswer {
+        health.recordSuccess(provider);
+        this.answeredBy = { provider, model, passedOver: [...passedOver], usage };
+        return this.answeredBy;
+    }
+
+    // Rethrows cancellations and the selected provider's errors that another provider would not fix.
+    // A fallback's error of that kind (e.g. no API key set for it) only passes over that provider.
+    private failOver(error: LLMError, passedOver: string[]): LLMError {
+        if (error.kind === 'cancelled' || (!error.retryable && error.provider === this.primary)) {
+            throw error;
+        }
+        if (error.retryable) {
+            health.recordFailure(error);
+        }
+        passedOver.push(`${getProviderName(error.provider)}: ${error.title}`);
+        return error;
+    }
+
+    // The chain without providers that are cooling down, unless that would leave none to try
+    private candidates(passedOver: string[]): string[] {
+        const available = this.chain.filter(provider => !health.isCoolingDown(provider));
+        if (available.length === 0) {
+            return this.chain;
+        }
+        passedOver.push(...this.chain.filter(provider => !available.includes(provider)).map(provider => `${getProviderName(provider)}: cooling down after repeated failures`));
+        return available;
+    }
+
+    // The requested model belongs to the selected provider; the others use their default
+    private modelFor(provider: string, model?: string): string {
+        return provider === this.primary && model ? model : LLMFactory.getDefaultModel(provider);
+    }
+}
+
+// e.g. "Answered by Gemini (gemini-1.5-flash) – Groq: Rate limit reached"
+export function describeAnswer(answer: ProviderAnswer): string {
+    const reasons = answer.passedOver.length > 0 ? ` – ${answer.passedOver.join('; ')}` : '';
+    return `Answered by ${getProviderName(answer.provider)} (${answer.model})${reasons}`;
+}
+
+// Tells the user when an editor command was answered by a fallback provider
+export function showFallbackNotice(provider: FallbackProvider): void {
+    if (provider.failedOver && provider.answeredBy) {
+        vscode.window.setStatusBarMessage(`$(arrow-swap) ${describeAnswer(provider.answeredBy)}`, 10000);
+    }
+}
@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import { ChatMessage, collectResponse, LLMFactory } from './providers';
+
+// How much of the document around the cursor is sent with each completion request
+const MAX_PREFIX_LINES = 80;
+const MAX_SUFFIX_LINES = 30;
+
+const SYSTEM_PROMPT = `You are a code completion engine embedded in an editor.
+You receive the code before and after the cursor and reply with ONLY the text to insert at the cursor.
+Do NOT repeat code that is already before or after the cursor.
+Do NOT include explanations or markdown fences like \`\`\`.
+If nothing sensible should be inserted, reply with an empty message.`;
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Models sometimes ignore the instructions and fence their answer anyway
+function extractCompletion(response: string, linePrefix: string): string {
+    let text = response.replace(/^\s*```[\w-]*\n?/, '').replace(/\n?```\s*$/, '');
+    if (linePrefix.trim() && text.startsWith(linePrefix)) {
+        text = text.slice(linePrefix.length);
+    }
+    return text.trimEnd();
+}
+
+//## Inline (ghost text) completions
+export class AICompletionProvider implements vscode.InlineCompletionItemProvider {
+    private getConfig() {
+        const config = vscode.workspace.getConfiguration('codeAssistant.inlineCompletions');
+        return {
+            languages: config.get<Record<string, boolean>>('languages', { '*': true }),
+            provider: config.get<string>('provider', '')
+                || vscode.workspace.getConfiguration('codeAssistant').get<string>('activeModel', 'groq'),
+            model: config.get<string>('model', '') || undefined,
+            debounceMs: config.get<number>('debounceMs', 300)
+        };
+    }
+
+    // A language-specific entry wins over the "*" default, as with `files.exclude`-style maps
+    private isEnabledFor(languageId: string, languages: Record<string, boolean>): boolean {
+        return languages[languageId] ?? languages['*'] ?? true;
+    }
+
+    private buildPrompt(document: vscode.TextDocument, position: vscode.Position): ChatMessage[] {
+        const prefixStart = new vscode.Position(Math.max(0, position.line - MAX_PREFIX_LINES), 0);
+        const suffixEnd = document.lineAt(Math.min(document.lineCount - 1, position.line + MAX_SUFFIX_LINES)).range.end;
+        const prefix = document.getText(new vscode.Range(prefixStart, position));
+        const suffix = document.getText(new vscode.Range(position, suffixEnd));
+
+        return [
+            { role: 'system', content: SYSTEM_PROMPT },
+            {
+                role: 'user',
+                content: `Language: ${document.languageId}
+File: ${vscode.workspace.asRelativePath(document.uri)}
+
+<code_before_cursor>
+${prefix}</code_before_cursor>
+<code_after_cursor>
+${suffix}</code_after_cursor>`
+            }
+        ];
+    }
+
+    async provideInlineCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _context: vscode.InlineCompletionContext,
+        token: vscode.CancellationToken
+    ): Promise<vscode.InlineCompletionItem[]> {
+        const config = this.getConfig();
+        if (!this.isEnabledFor(document.languageId, config.languages)) {
+            return [];
+        }
+
+        // Wait for a pause in typing; VS Code cancels the token when the user keeps going
+        await sleep(config.debounceMs);
+        if (token.isCancellationRequested) {
+            return [];
+        }
+
+        const request = new AbortController();
+        const cancellation = token.onCancellationRequested(() => request.abort());
+        try {
+            const provider = LLMFactory.getProvider(config.provider);
+            const messages = this.buildPrompt(document, position);
+            let response: string;
+            try {
+                response = await collectResponse(provider, messages, config.model, request.signal);
+            } catch (error) {
+                // Completions are best-effort; a failed request simply shows no ghost text
+                console.warn('Inline completion failed:', (error as Error).message);
+                return [];
+            }
+            if (token.isCancellationRequested) {
+                return [];
+            }
+
+            const linePrefix = document.lineAt(position.line).text.slice(0, position.character);
+            const completion = extractCompletion(response, linePrefix);
+            if (!completion) {
+                return [];
+            }
+            return [new vscode.InlineCompletionItem(completion, new vscode.Range(position, position))];
+        } finally {
+            cancellation.dispose();
+        }
+    }
+}
@@ -0,0 +1,130 @@
+// The subset of JSON Schema that model replies are described with. It maps onto OpenAPI-style
+// schemas for Gemini's responseSchema and is checked at runtime by validateJson.
+export type JsonSchema =
+    | { type: 'string'; enum?: string[]; description?: string }
+    | { type: 'number' | 'integer'; minimum?: number; maximum?: number; description?: string }
+    | { type: 'boolean'; description?: string }
+    | { type: 'array'; items: JsonSchema; description?: string }
+    | { type: 'object'; properties: Record<string, JsonSchema>; required?: string[]; description?: string };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    }
+    return Array.isArray(value) ? 'an array' : `a ${typeof value}`;
+}
+
+/**
+ * Checks `value` against `schema` and returns one message per problem, each starting with
+ * the JSON path of the offending value (e.g. "$.antiPatterns[2].severity"). Extra properties are allowed.
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path = '$'): string[] {
+    switch (schema.type) {
+        case 'string':
+            if (typeof value !== 'string') {
+                return [`${path} must be a string, got ${describe(value)}`];
+            }
+            if (schema.enum && !schema.enum.includes(value)) {
+                return [`${path} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}, got ${JSON.stringify(value)}`];
+            }
+            return [];
+        case 'number':
+        case 'integer':
+            if (typeof value !== 'number' || !Number.isFinite(value)) {
+                return [`${path} must be a number, got ${describe(value)}`];
+            }
+            if (schema.type === 'integer' && !Number.isInteger(value)) {
+                return [`${path} must be an integer, got ${value}`];
+            }
+            if ((schema.minimum !== undefined && value < schema.minimum) || (schema.maximum !== undefined && value > schema.maximum)) {
+                return [`${path} must be between ${schema.minimum ?? '-∞'} and ${schema.maximum ?? '∞'}, got ${value}`];
+            }
+            return [];
+        case 'boolean':
+            return typeof value === 'boolean' ? [] : [`${path} must be a boolean, got ${describe(value)}`];
+        case 'array':
+            if (!Array.isArray(value)) {
+                return [`${path} must be an array, got ${describe(value)}`];
+            }
+            return value.flatMap((item, index) => validateJson(item, schema.items, `${path}[${index}]`));
+        case 'object': {
+            if (!isObject(value)) {
+                return [`${path} must be an object, got ${describe(value)}`];
+            }
+            const errors = (schema.required ?? [])
+                .filter(key => value[key] === undefined)
+                .map(key => `${path}.${key} is required`);
+            for (const [key, propertySchema] of Object.entries(schema.properties)) {
+                if (value[key] !== undefined) {
+                    errors.push(...validateJson(value[key], propertySchema, `${path}.${key}`));
+                }
+            }
+            return errors;
+        }
+    }
+}
+
+// Placeholder for a required container the model left out or got wrong
+function emptyValue(schema: JsonSchema): unknown {
+    if (schema.type === 'array') {
+        return [];
+    }
+    if (schema.type === 'object') {
+        return Object.fromEntries(Object.entries(schema.properties).map(([key, property]) => [key, emptyValue(property)]));
+    }
+    return schema.type === 'string' ? '' : schema.type === 'boolean' ? false : 0;
+}
+
+/**
+ * Keeps what can be used of a reply that does not fully match `schema`: obvious slips are
+ * corrected (numbers sent as strings, enum values in the wrong case), invalid array items are
+ * dropped and invalid required arrays/objects are replaced with empty ones. Returns undefined
+ * when `value` itself cannot be used.
+ */
+export function salvageJson(value: unknown, schema: JsonSchema): unknown {
+    switch (schema.type) {
+        case 'string': {
+            if (typeof value !== 'string') {
+                return undefined;
+            }
+            if (!schema.enum) {
+                return value;
+            }
+            return schema.enum.find(option => option.toLowerCase() === value.trim().toLowerCase());
+        }
+        case 'number':
+        case 'integer': {
+            const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+            return validateJson(number, schema).length === 0 ? number : undefined;
+        }
+        case 'boolean':
+            return typeof value === 'boolean' ? value : undefined;
+        case 'array':
+            return Array.isArray(value)
+                ? value.map(item => salvageJson(item, schema.items)).filter(item => item !== undefined)
+                : undefined;
+        case 'object': {
+            if (!isObject(value)) {
+                return undefined;
+            }
+            const result: Record<string, unknown> = {};
+            for (const [key, propertySchema] of Object.entries(schema.properties)) {
+                let salvaged = value[key] === undefined ? undefined : salvageJson(value[key], propertySchema);
+                if (salvaged === undefined && schema.required?.includes(key)) {
+                    if (propertySchema.type !== 'array' && propertySchema.type !== 'object') {
+                        return undefined;
+                    }
+                    salvaged = emptyValue(propertySchema);
+                }
+                if (salvaged !== undefined) {
+                    result[key] = salvaged;
+                }
+            }
+            return result;
+        }
+    }
+}
@@ -0,0 +1,7 @@
+//## Helpers for Markdown written for people and models
+
+// A fence longer than any backtick run in `code`, so the code cannot close it early
+export function fenceFor(code: string): string {
+    const longest = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length));
+    return '`'.repeat(Math.max(3, longest + 1));
+}
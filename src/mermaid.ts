@@ -0,0 +1,99 @@
+import * as vscode from 'vscode';
+import { ChatMessage, LLMProvider, collectResponse } from './providers';
+
+// First line of every diagram type we ask for; "graph" and "flowchart" are the same diagram in Mermaid
+const DIAGRAM_HEADER = /^[ \t]*(?:(?:graph|flowchart)(?:[ \t]+(?:TD|TB|BT|LR|RL))?|sequenceDiagram|classDiagram(?:-v2)?|stateDiagram(?:-v2)?|erDiagram)\b/m;
+
+/**
+ * Pulls the Mermaid source out of a model reply. Prefers a ```mermaid block, then any fenced
+ * block, then the bare reply; prose before the diagram header is dropped.
+ */
+export function extractMermaidSource(response: string): string | undefined {
+    const blocks = [...response.matchAll(/```[ \t]*([\w-]*)[^\n]*\n([\s\S]*?)(?:```|$)/g)];
+    const candidates = [
+        ...blocks.filter(block => block[1].toLowerCase() === 'mermaid').map(block => block[2]),
+        ...blocks.filter(block => block[1].toLowerCase() !== 'mermaid').map(block => block[2]),
+        response.replace(/^[ \t]*```.*$/gm, '')
+    ];
+    for (const candidate of candidates) {
+        const header = DIAGRAM_HEADER.exec(candidate);
+        if (header) {
+            return candidate.slice(header.index).trim();
+        }
+    }
+    return undefined;
+}
+
+// "%% lines A 12-14": comment lines the model adds to tie a node to the (1-based) lines it stands for
+const NODE_LINES = /^[ \t]*%%[ \t]*lines[ \t]+([\w-]+)[ \t]+(\d+)(?:[ \t]*-[ \t]*(\d+))?[ \t]*$/gm;
+
+export function extractNodeLines(source: string): Map<string, { start: number; end: number }> {
+    const nodes = new Map<string, { start: number; end: number }>();
+    for (const match of source.matchAll(NODE_LINES)) {
+        const start = Number(match[2]);
+        const end = match[3] ? Number(match[3]) : start;
+        nodes.set(match[1], { start: Math.min(start, end), end: Math.max(start, end) });
+    }
+    return nodes;
+}
+
+// Resolves to Mermaid's parse error, or undefined when the source parses
+export type DiagramValidator = (source: string) => Promise<string | undefined>;
+
+export interface DiagramResult {
+    source: string;
+    // Parse error still present after the last repair attempt; undefined for a valid diagram
+    error?: string;
+    // Model requests made, the first generation included
+    attempts: number;
+}
+
+function buildRepairPrompt(error: string): string {
+    return `The Mermaid diagram in your previous reply does not parse. Mermaid reported:
+
+${error}
+
+Fix the diagram so that it parses. Keep its content and its %% comment lines, reply with ONLY the corrected Mermaid source and nothing else.
+Quote node labels that contain parentheses, brackets, braces, quotes or other special characters, e.g. A["parse(input)"].`;
+}
+
+/**
+ * Asks the model for a diagram and runs it through `validate`. While the source does not parse,
+ * the parse error is sent back for up to `codeAssistant.diagrams.maxRepairAttempts` repairs.
+ * Throws vscode.CancellationError when `token` is cancelled.
+ */
+export async function generateDiagram(
+    provider: LLMProvider,
+    messages: ChatMessage[],
+    validate: DiagramValidator,
+    token?: vscode.CancellationToken,
+    progress?: vscode.Progress<{ message?: string }>
+): Promise<DiagramResult> {
+    const maxRepairs = vscode.workspace.getConfiguration('codeAssistant').get<number>('diagrams.maxRepairAttempts', 2);
+    const request = new AbortController();
+    const cancellation = token?.onCancellationRequested(() => request.abort());
+
+    try {
+        let conversation = messages;
+        for (let attempt = 1; ; attempt++) {
+            const response = await collectResponse(provider, conversation, undefined, request.signal);
+            if (token?.isCancellationRequested) {
+                throw new vscode.CancellationError();
+            }
+
+            const source = extractMermaidSource(response);
+            const error = source === undefined
+                ? 'The reply does not contain a Mermaid diagram. It must start with a diagram header such as "flowchart TD".'
+                : await validate(source);
+            if (!error || attempt > maxRepairs) {
+                return { source: source ?? response.trim(), error, attempts: attempt };
+            }
+
+            progress?.report({ message: `Repairing diagram (attempt ${attempt} of ${maxRepairs})...` });
+            // Only the latest reply is kept, so every repair request stays the same size
+            conversation = [...messages, { role: 'assistant', content: response }, { role: 'user', content: buildRepairPrompt(error) }];
+        }
+    } finally {
+        cancellation?.dispose();
+    }
+}
@@ -0,0 +1,88 @@
+import * as vscode from 'vscode';
+import { toLLMError } from './errors';
+import { isModelListingProvider, LLMFactory, ModelInfo } from './providers';
+
+export interface ModelList {
+    models: ModelInfo[];
+    // Set when the provider could not be asked; `models` then holds the last list it returned, if any
+    error?: string;
+    fetchedAt?: number;
+}
+
+interface CachedModels {
+    models: ModelInfo[];
+    fetchedAt: number;
+}
+
+// Model ids from `codeAssistant.customModels`, e.g. { "groq": ["my-fine-tune"] }
+function getCustomModels(provider: string): string[] {
+    const custom = vscode.workspace.getConfiguration('codeAssistant').get<Record<string, unknown>>('customModels', {});
+    const ids = custom[provider];
+    return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string' && id.trim() !== '').map(id => id.trim()) : [];
+}
+
+//## Models offered per provider: the vendor's list (cached across sessions) plus configured ids
+export class ModelCatalog {
+    private static readonly storageKey = 'codeAssistant.modelCache';
+    // Vendor lists rarely change; refreshing asks the provider right away
+    private static readonly maxAgeMs = 24 * 60 * 60 * 1000;
+    private readonly pending = new Map<string, Promise<ModelList>>();
+
+    constructor(private readonly state: vscode.Memento) {}
+
+    /**
+     * The provider's models, with its default model first and custom ids from settings after it.
+     * A failed request falls back to the last cached list and reports the error alongside.
+     */
+    async getModels(provider: string, refresh = false): Promise<ModelList> {
+        const cached = this.read()[provider];
+        if (!refresh && cached && Date.now() - cached.fetchedAt < ModelCatalog.maxAgeMs) {
+            return this.withConfiguredModels(provider, { ...cached });
+        }
+        // The chat panel may ask again while a request is still running
+        let request = this.pending.get(provider);
+        if (!request) {
+            request = this.fetch(provider).finally(() => this.pending.delete(provider));
+            this.pending.set(provider, request);
+        }
+        return this.withConfiguredModels(provider, await request);
+    }
+
+    // Forgets the cached list of `provider`, or of all providers
+    async clear(provider?: string): Promise<void> {
+        const cache = provider ? { ...this.read(), [provider]: undefined } : {};
+        await this.state.update(ModelCatalog.storageKey, cache);
+    }
+
+    private async fetch(provider: string): Promise<ModelList> {
+        const llmProvider = LLMFactory.getProvider(provider);
+        if (!isModelListingProvider(llmProvider)) {
+            return { models: [] };
+        }
+        try {
+            const models = await llmProvider.listModels();
+            const fetchedAt = Date.now();
+            await this.state.update(ModelCatalog.storageKey, { ...this.read(), [provider]: { models, fetchedAt } });
+            return { models, fetchedAt };
+        } catch (error) {
+            const cached = this.read()[provider];
+            return { models: cached?.models ?? [], fetchedAt: cached?.fetchedAt, error: toLLMError(error, provider).describe() };
+        }
+    }
+
+    private withConfiguredModels(provider: string, list: ModelList): ModelList {
+        const defaultModel = LLMFactory.getDefaultModel(provider);
+        const listed = new Map(list.models.map(model => [model.id, model]));
+        const first: ModelInfo[] = [listed.get(defaultModel) ?? { id: defaultModel, name: `${defaultModel} (configured)` }];
+        for (const id of getCustomModels(provider)) {
+            if (!first.some(model => model.id === id)) {
+                first.push(listed.get(id) ?? { id, name: `${id} (custom)` });
+            }
+        }
+        return { ...list, models: [...first, ...list.models.filter(model => !first.some(picked => picked.id === model.id))] };
+    }
+
+    private read(): Record<string, CachedModels | undefined> {
+        return this.state.get<Record<string, CachedModels | undefined>>(ModelCatalog.storageKey, {});
+    }
+}
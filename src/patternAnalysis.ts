@@ -0,0 +1,264 @@
+import * as vscode from 'vscode';
+import { JsonSchema } from './jsonSchema';
+import { LLMProvider, userMessage } from './providers';
+import { numberLines } from './selectionCommands';
+import { generateStructured, StructuredResult } from './structuredOutput';
+
+export interface CodePattern {
+    name: string;
+    description: string;
+    location: string;
+    confidence: number;
+    impact: string;
+}
+
+export interface CodeAntiPattern {
+    issue: string;
+    impact: string;
+    solution: string;
+    severity: 'low' | 'medium' | 'high';
+    // 1-based file lines of the affected code
+    startLine: number;
+    endLine: number;
+}
+
+export interface CodeRecommendation {
+    title: string;
+    details: string;
+    // Replacement for startLine-endLine
+    example: string;
+    complexity: string;
+    performance_impact: string;
+    startLine: number;
+    endLine: number;
+}
+
+export interface PatternAnalysis {
+    patterns: CodePattern[];
+    antiPatterns: CodeAntiPattern[];
+    recommendations: CodeRecommendation[];
+    performance_metrics: {
+        time_complexity: string;
+        space_complexity: string;
+        potential_bottlenecks: string[];
+    };
+}
+
+const LEVEL: JsonSchema = { type: 'string', enum: ['high', 'medium', 'low'] };
+const LINE: JsonSchema = { type: 'integer', minimum: 1 };
+
+const CODE_PATTERN_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        name: { type: 'string' },
+        description: { type: 'string' },
+        location: { type: 'string' },
+        confidence: { type: 'number', minimum: 0, maximum: 1 },
+        impact: { type: 'string' }
+    },
+    required: ['name', 'description', 'location', 'confidence', 'impact']
+};
+
+const CODE_ANTI_PATTERN_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        issue: { type: 'string' },
+        impact: { type: 'string' },
+        solution: { type: 'string' },
+        severity: LEVEL,
+        startLine: LINE,
+        endLine: LINE
+    },
+    required: ['issue', 'impact', 'solution', 'severity', 'startLine', 'endLine']
+};
+
+const CODE_RECOMMENDATION_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        title: { type: 'string' },
+        details: { type: 'string' },
+        example: { type: 'string' },
+        complexity: LEVEL,
+        performance_impact: LEVEL,
+        startLine: LINE,
+        endLine: LINE
+    },
+    required: ['title', 'details', 'example', 'complexity', 'performance_impact', 'startLine', 'endLine']
+};
+
+export const PATTERN_ANALYSIS_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        patterns: { type: 'array', items: CODE_PATTERN_SCHEMA },
+        antiPatterns: { type: 'array', items: CODE_ANTI_PATTERN_SCHEMA },
+        recommendations: { type: 'array', items: CODE_RECOMMENDATION_SCHEMA },
+        performance_metrics: {
+            type: 'object',
+            properties: {
+                time_complexity: { type: 'string' },
+                space_complexity: { type: 'string' },
+                potential_bottlenecks: { type: 'array', items: { type: 'string' } }
+            },
+            required: ['time_complexity', 'space_complexity', 'potential_bottlenecks']
+        }
+    },
+    required: ['patterns', 'antiPatterns', 'recommendations', 'performance_metrics']
+};
+
+/**
+ * Analyzes the code in `range`. Replies are validated against PATTERN_ANALYSIS_SCHEMA;
+ * see generateStructured for repairs and partial results.
+ */
+export async function analyzeCodePatterns(document: vscode.TextDocument, range: vscode.Range, provider: LLMProvider, signal?: AbortSignal): Promise<StructuredResult<PatternAnalysis>> {
+    const prompt = `You are an expert code analyzer. Analyze the following code comprehensively and return your analysis as a single JSON object.
+
+    RESPONSE REQUIREMENTS:
+    1. "severity", "complexity" and "performance_impact" values MUST be exactly "high", "medium", or "low"
+    2. "confidence" values MUST be numbers between 0 and 1
+    3. "startLine" and "endLine" MUST be the line numbers shown in front of the code
+    4. Use empty arrays when there is nothing to report
+
+    JSON SCHEMA TO FOLLOW:
+    {
+        "patterns": [
+            {
+                "name": "string - name of the pattern",
+                "description": "string - detailed explanation of the pattern",
+                "location": "string - specific class/method/line where pattern is used",
+                "confidence": 0.95,
+                "impact": "string - specific impact on code quality"
+            }
+        ],
+        "antiPatterns": [
+            {
+                "issue": "string - name and description of the anti-pattern",
+                "impact": "string - specific negative effects",
+                "solution": "string - concrete steps to fix",
+                "severity": "string - exactly one of: high, medium, low",
+                "startLine": 12,
+                "endLine": 14
+            }
+        ],
+        "recommendations": [
+            {
+                "title": "string - short action title",
+                "details": "string - detailed explanation",
+                "example": "string - the complete replacement code for lines startLine to endLine, with the original indentation and without line numbers (NO markdown)",
+                "complexity": "string - exactly one of: high, medium, low",
+                "performance_impact": "string - exactly one of: high, medium, low",
+                "startLine": 12,
+                "endLine": 14
+            }
+        ],
+        "performance_metrics": {
+            "time_complexity": "string - Big O notation",
+            "space_complexity": "string - Big O notation",
+            "potential_bottlenecks": [
+                "string - specific method or operation that could be a bottleneck"
+            ]
+        }
+    }
+
+    CODE TO ANALYZE (every line starts with its line number and "| ", which are not part of the code):
+    ${numberLines(document, range)}`;
+
+    return generateStructured<PatternAnalysis>(provider, userMessage(prompt), PATTERN_ANALYSIS_SCHEMA, signal);
+}
+
+const SEVERITIES: Record<CodeAntiPattern['severity'], vscode.DiagnosticSeverity> = {
+    high: vscode.DiagnosticSeverity.Error,
+    medium: vscode.DiagnosticSeverity.Warning,
+    low: vscode.DiagnosticSeverity.Information
+};
+
+export const PREVIEW_RECOMMENDATION_COMMAND = 'codesuggestion.previewRecommendation';
+
+interface RecommendationFix {
+    title: string;
+    range: vscode.Range;
+    example: string;
+}
+
+// Lines reported by the model, clamped to the document; undefined when they are not usable
+export function linesToRange(document: vscode.TextDocument, startLine: unknown, endLine: unknown): vscode.Range | undefined {
+    const start = Number(startLine);
+    const end = endLine === undefined ? start : Number(endLine);
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 1 || start > document.lineCount) {
+        return undefined;
+    }
+    const last = document.lineAt(Math.min(Math.max(start, end), document.lineCount) - 1);
+    return new vscode.Range(start - 1, 0, last.lineNumber, last.range.end.character);
+}
+
+//## Anti-patterns as Problems, recommendations as quick fixes
+// Both are dropped as soon as the document is edited, since their line ranges no longer hold.
+export class PatternDiagnostics implements vscode.CodeActionProvider, vscode.Disposable {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private readonly diagnostics = vscode.languages.createDiagnosticCollection('codeAssistant.patterns');
+    private readonly fixes = new Map<string, RecommendationFix[]>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.disposables.push(
+            this.diagnostics,
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (event.contentChanges.length > 0) {
+                    this.clear(event.document.uri);
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => this.clear(document.uri))
+        );
+    }
+
+    /**
+     * Replaces the diagnostics and fixes of `document` with those of `analysis`.
+     * Entries without usable line numbers are attached to `fallback` (the analyzed selection).
+     */
+    publish(document: vscode.TextDocument, analysis: PatternAnalysis, fallback: vscode.Range): void {
+        const diagnostics = (analysis.antiPatterns ?? []).map(antiPattern => {
+            const range = linesToRange(document, antiPattern.startLine, antiPattern.endLine) ?? fallback;
+            const diagnostic = new vscode.Diagnostic(
+                range,
+                `${antiPattern.issue}\nImpact: ${antiPattern.impact}\nSolution: ${antiPattern.solution}`,
+                SEVERITIES[antiPattern.severity] ?? vscode.DiagnosticSeverity.Warning
+            );
+            diagnostic.source = 'AI Pattern Analysis';
+            return diagnostic;
+        });
+        this.diagnostics.set(document.uri, diagnostics);
+
+        this.fixes.set(document.uri.toString(), (analysis.recommendations ?? [])
+            .filter(recommendation => typeof recommendation.example === 'string' && recommendation.example.trim())
+            .map(recommendation => ({
+                title: recommendation.title,
+                range: linesToRange(document, recommendation.startLine, recommendation.endLine) ?? fallback,
+                example: recommendation.example
+            })));
+    }
+
+    clear(uri: vscode.Uri): void {
+        this.diagnostics.delete(uri);
+        this.fixes.delete(uri.toString());
+    }
+
+    provideCodeActions(document: vscode.TextDocument, range: vscode.Range | vscode.Selection, context: vscode.CodeActionContext): vscode.CodeAction[] {
+        const fixes = this.fixes.get(document.uri.toString()) ?? [];
+        return fixes
+            .filter(fix => fix.range.intersection(range))
+            .map(fix => {
+                const action = new vscode.CodeAction(`Preview fix: ${fix.title}`, vscode.CodeActionKind.QuickFix);
+                action.diagnostics = context.diagnostics.filter(diagnostic => diagnostic.source === 'AI Pattern Analysis' && diagnostic.range.intersection(fix.range));
+                action.command = {
+                    command: PREVIEW_RECOMMENDATION_COMMAND,
+                    title: action.title,
+                    arguments: [document.uri, fix.range, fix.example, fix.title]
+                };
+                return action;
+            });
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
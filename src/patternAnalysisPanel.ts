@@ -0,0 +1,336 @@
+import * as vscode from 'vscode';
+import { PatternAnalysis } from './patternAnalysis';
+import { ExportFormat, exportPatternReport, modelName, providerName } from './patternExport';
+import { PatternReport } from './patternReport';
+import { StructuredOutputError, StructuredResult } from './structuredOutput';
+import { getContentSecurityPolicy, getNonce } from './webview';
+
+//## Webview showing the result of "AI: Detect Code Patterns"
+// The page is a fixed shell; the analysis is posted to it as data and rendered with textContent,
+// so nothing the model writes is ever parsed as HTML.
+export class PatternAnalysisPanel {
+    private readonly ready: Promise<void>;
+    private report: PatternReport | undefined;
+
+    private constructor(private readonly panel: vscode.WebviewPanel, private readonly toolVersion: string) {
+        let markReady: () => void = () => undefined;
+        this.ready = new Promise(resolve => markReady = resolve);
+
+        panel.webview.onDidReceiveMessage(async message => {
+            switch (message.command) {
+                case 'ready':
+                    markReady();
+                    break;
+                case 'export':
+                    if (this.report && ['markdown', 'json', 'sarif'].includes(message.format)) {
+                        await exportPatternReport(this.report, this.toolVersion, message.format as ExportFormat);
+                    }
+                    break;
+            }
+        });
+        panel.webview.html = getPatternAnalysisWebviewContent(panel.webview);
+    }
+
+    static create(toolVersion: string): PatternAnalysisPanel {
+        const panel = vscode.window.createWebviewPanel(
+            'patternDetector',
+            'Code Pattern Analysis',
+            vscode.ViewColumn.Two,
+            { enableScripts: true, localResourceRoots: [] }
+        );
+        return new PatternAnalysisPanel(panel, toolVersion);
+    }
+
+    // `report` holds the same analysis and is what the export buttons write
+    async render({ value, errors, partial }: StructuredResult<PatternAnalysis>, report: PatternReport): Promise<void> {
+        await this.ready;
+        this.report = report;
+        this.panel.webview.postMessage({
+            command: 'renderAnalysis',
+            analysis: value,
+            errors,
+            partial,
+            run: { provider: providerName(report), model: modelName(report), timestamp: report.timestamp }
+        });
+    }
+
+    // Shown when the reply could not be read as an analysis at all, even after repairs
+    async showError(error: StructuredOutputError): Promise<void> {
+        await this.ready;
+        this.panel.webview.postMessage({ command: 'renderError', message: error.message, response: error.response });
+    }
+}
+
+export function getPatternAnalysisWebviewContent(webview: vscode.Webview): string {
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+    <html lang="en">
+    <head>
+        <meta charset="UTF-8">
+        <meta http-equiv="Content-Security-Policy" content="${getContentSecurityPolicy(webview, nonce)}">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Code Pattern Analysis</title>
+        <style nonce="${nonce}">
+            body {
+                font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+                padding: 20px;
+                line-height: 1.5;
+                color: #e0e0e0;
+                background-color: #1e1e1e;
+            }
+            .section {
+                margin-bottom: 30px;
+                background: #2d2d2d;
+                border-radius: 8px;
+                padding: 20px;
+            }
+            .pattern {
+                background: #1e3a8a;
+                padding: 15px;
+                margin: 10px 0;
+                border-radius: 6px;
+            }
+            .antipattern {
+                background: #7f1d1d;
+                padding: 15px;
+                margin: 10px 0;
+                border-radius: 6px;
+            }
+            .recommendation {
+                background: #064e3b;
+                padding: 15px;
+                margin: 10px 0;
+                border-radius: 6px;
+            }
+            .confidence-bar {
+                height: 4px;
+                background: #4f46e5;
+                margin-top: 8px;
+            }
+            .severity-high { border-left: 4px solid #ef4444; }
+            .severity-medium { border-left: 4px solid #f59e0b; }
+            .severity-low { border-left: 4px solid #10b981; }
+            code {
+                display: block;
+                white-space: pre-wrap;
+                background: #1a1a1a;
+                padding: 10px;
+                margin: 10px 0;
+                border-radius: 4px;
+                font-family: 'Consolas', 'Courier New', monospace;
+            }
+            .metrics {
+                display: grid;
+                grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
+                gap: 15px;
+                margin-top: 15px;
+            }
+            .metric-card {
+                background: #374151;
+                padding: 15px;
+                border-radius: 6px;
+            }
+            .metric-card.wide {
+                margin-top: 15px;
+            }
+            .partial-note {
+                background: #78350f;
+                padding: 15px;
+                margin-bottom: 20px;
+                border-radius: 6px;
+            }
+            .run-info, .hint {
+                color: #9ca3af;
+            }
+            .export-bar button {
+                background: #374151;
+                color: #e0e0e0;
+                border: 1px solid #4b5563;
+                border-radius: 4px;
+                padding: 4px 10px;
+                margin-right: 6px;
+                cursor: pointer;
+            }
+            summary {
+                cursor: pointer;
+                margin: 10px 0;
+            }
+            .error summary {
+                color: #f87171;
+            }
+            pre {
+                background: #1a1a1a;
+                padding: 15px;
+                border-radius: 4px;
+                overflow-x: auto;
+                white-space: pre-wrap;
+            }
+        </style>
+    </head>
+    <body>
+        <h1 id="heading">Code Pattern Analysis</h1>
+        <p id="run-info" class="run-info"></p>
+        <div id="export-bar" class="export-bar" hidden>
+            Export:
+            <button data-format="markdown">Markdown</button>
+            <button data-format="json">JSON</button>
+            <button data-format="sarif">SARIF</button>
+        </div>
+        <div id="content"></div>
+
+        <script nonce="${nonce}">
+            const vscode = acquireVsCodeApi();
+            const heading = document.getElementById('heading');
+            const runInfo = document.getElementById('run-info');
+            const exportBar = document.getElementById('export-bar');
+            const content = document.getElementById('content');
+            const LEVELS = ['high', 'medium', 'low'];
+
+            for (const button of exportBar.querySelectorAll('button')) {
+                button.addEventListener('click', () => vscode.postMessage({ command: 'export', format: button.dataset.format }));
+            }
+
+            // Every model-provided value goes through textContent and is never parsed as HTML
+            function element(tag, className, text) {
+                const node = document.createElement(tag);
+                if (className) {
+                    node.className = className;
+                }
+                if (text !== undefined && text !== null) {
+                    node.textContent = String(text);
+                }
+                return node;
+            }
+
+            function append(parent, ...children) {
+                for (const child of children) {
+                    parent.appendChild(child);
+                }
+                return parent;
+            }
+
+            function field(label, value) {
+                return append(element('p'), element('strong', '', label + ': '), element('span', '', value));
+            }
+
+            function list(items) {
+                return append(element('ul'), ...items.map(item => element('li', '', item)));
+            }
+
+            function section(title, items, renderItem) {
+                const container = append(element('div', 'section'), element('h2', '', title));
+                if (!Array.isArray(items) || items.length === 0) {
+                    container.appendChild(element('p', 'hint', 'Nothing found.'));
+                }
+                for (const item of Array.isArray(items) ? items : []) {
+                    container.appendChild(renderItem(item));
+                }
+                return container;
+            }
+
+            function lines(startLine, endLine) {
+                return endLine && endLine !== startLine ? startLine + '-' + endLine : String(startLine);
+            }
+
+            function renderPattern(pattern) {
+                const bar = element('div', 'confidence-bar');
+                const confidence = Number(pattern.confidence);
+                bar.style.width = (Number.isFinite(confidence) ? Math.min(Math.max(confidence, 0), 1) * 100 : 0) + '%';
+                return append(
+                    element('div', 'pattern'),
+                    element('h3', '', pattern.name),
+                    element('p', '', pattern.description),
+                    append(element('p'), element('em', '', 'Location: ' + pattern.location)),
+                    element('p', '', 'Impact: ' + pattern.impact),
+                    bar
+                );
+            }
+
+            function renderAntiPattern(antiPattern) {
+                const severity = LEVELS.includes(antiPattern.severity) ? antiPattern.severity : 'medium';
+                return append(
+                    element('div', 'antipattern severity-' + severity),
+                    element('h3', '', antiPattern.issue),
+                    field('Impact', antiPattern.impact),
+                    field('Solution', antiPattern.solution),
+                    field('Severity', antiPattern.severity),
+                    append(element('p'), element('em', '', 'Lines: ' + lines(antiPattern.startLine, antiPattern.endLine)))
+                );
+            }
+
+            function renderRecommendation(recommendation) {
+                return append(
+                    element('div', 'recommendation'),
+                    element('h3', '', recommendation.title),
+                    element('p', '', recommendation.details),
+                    element('code', '', recommendation.example),
+                    field('Implementation Complexity', recommendation.complexity),
+                    field('Performance Impact', recommendation.performance_impact)
+                );
+            }
+
+            function renderMetrics(metrics) {
+                const bottlenecks = Array.isArray(metrics.potential_bottlenecks) ? metrics.potential_bottlenecks : [];
+                return append(
+                    element('div', 'section'),
+                    element('h2', '', 'Performance Analysis'),
+                    append(
+                        element('div', 'metrics'),
+                        append(element('div', 'metric-card'), element('h3', '', 'Time Complexity'), element('p', '', metrics.time_complexity)),
+                        append(element('div', 'metric-card'), element('h3', '', 'Space Complexity'), element('p', '', metrics.space_complexity))
+                    ),
+                    append(element('div', 'metric-card wide'), element('h3', '', 'Potential Bottlenecks'), list(bottlenecks))
+                );
+            }
+
+            function renderAnalysis({ analysis, errors, partial, run }) {
+                heading.textContent = 'Code Pattern Analysis';
+                runInfo.textContent = run.provider + ' · ' + run.model + ' · ' + new Date(run.timestamp).toLocaleString();
+                exportBar.hidden = false;
+                const sections = [];
+                if (partial) {
+                    sections.push(append(
+                        element('div', 'partial-note'),
+                        element('strong', '', 'Partial results: '),
+                        element('span', '', 'some entries did not match the expected format and were left out.'),
+                        append(element('details'), element('summary', '', 'Validation errors'), list(errors))
+                    ));
+                }
+                sections.push(
+                    section('Design Patterns Found', analysis.patterns, renderPattern),
+                    section('Anti-Patterns Detected', analysis.antiPatterns, renderAntiPattern),
+                    renderMetrics(analysis.performance_metrics || {}),
+                    section('Recommendations', analysis.recommendations, renderRecommendation)
+                );
+                content.replaceChildren(...sections);
+            }
+
+            function renderError({ message, response }) {
+                heading.textContent = 'Error Analyzing Code';
+                runInfo.textContent = '';
+                exportBar.hidden = true;
+                content.replaceChildren(
+                    element('p', '', 'Error parsing analysis result: ' + message),
+                    append(element('details', 'error'), element('summary', '', 'Show Raw Response'), element('pre', '', response)),
+                    element('p', 'hint', 'If this error persists, try selecting a smaller code section or checking if the selected code is valid.')
+                );
+            }
+
+            window.addEventListener('message', event => {
+                const message = event.data;
+                switch (message.command) {
+                    case 'renderAnalysis':
+                        renderAnalysis(message);
+                        break;
+                    case 'renderError':
+                        renderError(message);
+                        break;
+                }
+            });
+
+            vscode.postMessage({ command: 'ready' });
+        </script>
+    </body>
+    </html>`;
+}
@@ -0,0 +1,285 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { getProviderName } from './apiKeys';
+import { fenceFor } from './markdown';
+import { FindingKind, PatternFinding, PatternReport } from './patternReport';
+
+export type ExportFormat = 'markdown' | 'json' | 'sarif';
+
+const FORMATS: Record<ExportFormat, { label: string; description: string; extension: string; filter: string }> = {
+    markdown: { label: 'Markdown', description: 'For pull request descriptions', extension: 'md', filter: 'Markdown' },
+    json: { label: 'JSON', description: 'The analysis as returned by the model', extension: 'json', filter: 'JSON' },
+    sarif: { label: 'SARIF 2.1.0', description: 'For code scanning tools', extension: 'sarif', filter: 'SARIF' }
+};
+
+// The providers that answered, or the selected one when none did (e.g. the first request failed)
+function answeringProviders(report: PatternReport): { provider: string; model: string }[] {
+    return report.answeredBy.length > 0 ? report.answeredBy : [{ provider: report.provider, model: report.model }];
+}
+
+// e.g. "Groq" or, after failing over part way, "Groq, Gemini"
+export function providerName(report: PatternReport): string {
+    return answeringProviders(report).map(answer => getProviderName(answer.provider)).join(', ');
+}
+
+export function modelName(report: PatternReport): string {
+    return answeringProviders(report).map(answer => answer.model).join(', ');
+}
+
+function relativePath(uri: vscode.Uri): string {
+    return vscode.workspace.asRelativePath(uri, false);
+}
+
+function lineSpan(range: vscode.Range): string {
+    const start = range.start.line + 1;
+    const end = range.end.line + 1;
+    return end > start ? `lines ${start}-${end}` : `line ${start}`;
+}
+
+//## Markdown
+
+// Model text is Markdown already, but tags in it (e.g. "<div> soup") would be swallowed as HTML
+function escapeTags(text: string): string {
+    return text.replace(/</g, '&lt;');
+}
+
+// Continuation lines of a list item have to be indented to stay inside it
+function indent(text: string, prefix = '  '): string {
+    return escapeTags(text.trim()).split(/\r?\n/).map((line, index) => index === 0 || !line.trim() ? line : prefix + line).join('\n');
+}
+
+function findingsOf(report: PatternReport, kind: FindingKind): PatternFinding[] {
+    return report.findings.filter(finding => finding.kind === kind);
+}
+
+export function toMarkdown(report: PatternReport): string {
+    const antiPatterns = findingsOf(report, 'antiPattern');
+    const patterns = findingsOf(report, 'pattern');
+    const recommendations = findingsOf(report, 'recommendation');
+    const bySeverity = (severity: string) => antiPatterns.filter(finding => finding.severity === severity).length;
+
+    const lines = [
+        `# Code Pattern Analysis: ${report.scope}`,
+        '',
+        `_${providerName(report)} · ${modelName(report)} · ${report.timestamp}_`,
+        '',
+        `**${antiPatterns.length}** anti-patterns (${bySeverity('high')} high, ${bySeverity('medium')} medium, ${bySeverity('low')} low), ` +
+            `**${patterns.length}** design patterns and **${recommendations.length}** recommendations in ${report.filesAnalyzed} file${report.filesAnalyzed === 1 ? '' : 's'}.`
+    ];
+    if (report.cancelled) {
+        lines.push('', '> The analysis was cancelled; not every file was analyzed.');
+    } else if (report.error) {
+        lines.push('', `> The analysis stopped early: ${escapeTags(report.error.describe())}`);
+    }
+
+    const order = { high: 0, medium: 1, low: 2 };
+    if (antiPatterns.length > 0) {
+        lines.push('', '## Anti-patterns', '');
+        for (const finding of [...antiPatterns].sort((a, b) => order[a.severity ?? 'low'] - order[b.severity ?? 'low'])) {
+            lines.push(`- **${finding.severity ?? 'unknown'}** · ${escapeTags(finding.title)} (\`${relativePath(finding.uri)}\`, ${lineSpan(finding.range)})`);
+            lines.push(`  ${indent(finding.detail)}`, '');
+        }
+    }
+
+    if (patterns.length > 0) {
+        lines.push('', '## Design patterns', '');
+        for (const finding of patterns) {
+            lines.push(`- **${escapeTags(finding.title)}** (\`${relativePath(finding.uri)}\`)`, `  ${indent(finding.detail)}`, '');
+        }
+    }
+
+    if (recommendations.length > 0) {
+        lines.push('', '## Recommendations', '');
+        for (const finding of recommendations) {
+            lines.push(`- **${escapeTags(finding.title)}** (\`${relativePath(finding.uri)}\`, ${lineSpan(finding.range)})`, `  ${indent(finding.detail)}`);
+            if (finding.example?.trim()) {
+                const fence = fenceFor(finding.example);
+                const language = path.extname(finding.uri.path).slice(1);
+                lines.push('', `  ${fence}${language}`, `  ${finding.example.replace(/\r?\n/g, '\n  ')}`, `  ${fence}`);
+            }
+            lines.push('');
+        }
+    }
+
+    const measured = report.chunks.filter(chunk => chunk.analysis.performance_metrics.time_complexity || chunk.analysis.performance_metrics.potential_bottlenecks.length > 0);
+    if (measured.length > 0) {
+        lines.push('', '## Performance', '');
+        for (const { uri, range, analysis: { performance_metrics: metrics } } of measured) {
+            lines.push(`- \`${relativePath(uri)}\`, ${lineSpan(range)}: time ${metrics.time_complexity || 'n/a'}, space ${metrics.space_complexity || 'n/a'}`);
+            lines.push(...metrics.potential_bottlenecks.map(bottleneck => `  - ${indent(bottleneck, '    ')}`));
+        }
+    }
+
+    if (report.skipped.length > 0) {
+        lines.push('', `<details><summary>Skipped files (${report.skipped.length})</summary>`, '', ...report.skipped.map(uri => `- \`${relativePath(uri)}\``), '', '</details>');
+    }
+    if (report.problems.length > 0) {
+        lines.push('', `<details><summary>Problems (${report.problems.length})</summary>`, '', ...report.problems.map(problem => `- ${escapeTags(problem)}`), '', '</details>');
+    }
+    return lines.join('\n').replace(/\n{3,}/g, '\n\n') + '\n';
+}
+
+//## JSON
+
+export function toJson(report: PatternReport): string {
+    const files = new Map<string, { path: string; chunks: object[] }>();
+    for (const chunk of report.chunks) {
+        const key = chunk.uri.toString();
+        const file = files.get(key) ?? { path: relativePath(chunk.uri), chunks: [] };
+        file.chunks.push({ startLine: chunk.range.start.line + 1, endLine: chunk.range.end.line + 1, partial: chunk.partial, ...chunk.analysis });
+        files.set(key, file);
+    }
+    return JSON.stringify({
+        scope: report.scope,
+        provider: report.provider,
+        model: report.model,
+        answeredBy: answeringProviders(report),
+        timestamp: report.timestamp,
+        cancelled: report.cancelled,
+        error: report.error?.describe(),
+        files: [...files.values()],
+        skipped: report.skipped.map(relativePath),
+        problems: report.problems
+    }, null, 2) + '\n';
+}
+
+//## SARIF 2.1.0
+
+const SARIF_RULES: Record<FindingKind, { id: string; name: string; description: string; level: string }> = {
+    antiPattern: { id: 'anti-pattern', name: 'AntiPattern', description: 'Anti-pattern or code smell', level: 'warning' },
+    recommendation: { id: 'recommendation', name: 'Recommendation', description: 'Suggested improvement', level: 'note' },
+    pattern: { id: 'design-pattern', name: 'DesignPattern', description: 'Design pattern in use', level: 'none' }
+};
+const RULE_ORDER: FindingKind[] = ['antiPattern', 'recommendation', 'pattern'];
+const SARIF_LEVELS = { high: 'error', medium: 'warning', low: 'note' };
+
+// Files in workspace folders are given relative to one of these base ids, so results from
+// different checkouts of the same project can be compared
+function uriBaseId(index: number): string {
+    return index === 0 ? 'SRCROOT' : `SRCROOT${index}`;
+}
+
+function artifactLocation(uri: vscode.Uri): object {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!folder) {
+        return { uri: uri.toString() };
+    }
+    return { uri: path.posix.relative(folder.uri.path, uri.path), uriBaseId: uriBaseId(folder.index) };
+}
+
+function region(range: vscode.Range): object {
+    return { startLine: range.start.line + 1, startColumn: range.start.character + 1, endLine: range.end.line + 1, endColumn: range.end.character + 1 };
+}
+
+// Built from the flagged code rather than line numbers or the model's wording, so a finding keeps
+// its fingerprint when code above it changes or the model describes it differently. Design
+// patterns have no code of their own; their name stands in for it.
+function fingerprint(finding: PatternFinding): string {
+    const subject = finding.code.trim() ? finding.code.trim().replace(/\s+/g, ' ') : finding.title.trim().toLowerCase();
+    return createHash('sha256')
+        .update(`${relativePath(finding.uri)}\0${finding.kind}\0${subject}`)
+        .digest('hex')
+        .slice(0, 32);
+}
+
+function toSarifResult(finding: PatternFinding): object {
+    const rule = SARIF_RULES[finding.kind];
+    const location = artifactLocation(finding.uri);
+    return {
+        ruleId: rule.id,
+        ruleIndex: RULE_ORDER.indexOf(finding.kind),
+        kind: finding.kind === 'pattern' ? 'informational' : 'fail',
+        level: finding.severity ? SARIF_LEVELS[finding.severity] : rule.level,
+        message: {
+            text: `${finding.title}. ${finding.detail.replace(/\*\*/g, '').replace(/\s*\n+\s*/g, ' ')}`,
+            markdown: `**${finding.title}**\n\n${finding.detail}`
+        },
+        locations: [{ physicalLocation: { artifactLocation: location, region: region(finding.range) } }],
+        partialFingerprints: { 'patternFinding/v1': fingerprint(finding) },
+        properties: finding.severity ? { severity: finding.severity } : undefined,
+        fixes: finding.example?.trim() ? [{
+            description: { text: finding.title },
+            artifactChanges: [{
+                artifactLocation: location,
+                replacements: [{ deletedRegion: region(finding.range), insertedContent: { text: finding.example } }]
+            }]
+        }] : undefined
+    };
+}
+
+export function toSarif(report: PatternReport, toolVersion: string): string {
+    const originalUriBaseIds = Object.fromEntries((vscode.workspace.workspaceFolders ?? []).map(folder => [
+        uriBaseId(folder.index),
+        { uri: `${folder.uri.toString().replace(/\/$/, '')}/` }
+    ]));
+    return JSON.stringify({
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: 'CodeSuggestion Pattern Analysis',
+                    version: toolVersion,
+                    rules: RULE_ORDER.map(kind => ({
+                        id: SARIF_RULES[kind].id,
+                        name: SARIF_RULES[kind].name,
+                        shortDescription: { text: SARIF_RULES[kind].description },
+                        defaultConfiguration: { level: SARIF_RULES[kind].level }
+                    }))
+                }
+            },
+            invocations: [{
+                executionSuccessful: !report.cancelled && !report.error,
+                startTimeUtc: report.timestamp,
+                toolExecutionNotifications: report.problems.map(problem => ({ level: 'warning', message: { text: problem } }))
+            }],
+            originalUriBaseIds,
+            results: report.findings.map(toSarifResult),
+            properties: { provider: report.provider, model: report.model, answeredBy: answeringProviders(report), scope: report.scope, skipped: report.skipped.map(relativePath) }
+        }]
+    }, null, 2) + '\n';
+}
+
+//## Saving
+
+/**
+ * Writes `report` in `format` (asked for when not given) to a file picked by the user,
+ * or copies it to the clipboard as Markdown.
+ */
+export async function exportPatternReport(report: PatternReport, toolVersion: string, format?: ExportFormat): Promise<void> {
+    const chosen = format ?? (await vscode.window.showQuickPick<vscode.QuickPickItem & { id: ExportFormat | 'clipboard' }>(
+        [
+            ...(Object.keys(FORMATS) as ExportFormat[]).map(id => ({ id, label: FORMATS[id].label, description: FORMATS[id].description })),
+            { id: 'clipboard', label: 'Copy Markdown', description: 'To paste into a pull request' }
+        ],
+        { placeHolder: 'Export the pattern analysis as' }
+    ))?.id;
+    if (!chosen) {
+        return;
+    }
+    if (chosen === 'clipboard') {
+        await vscode.env.clipboard.writeText(toMarkdown(report));
+        vscode.window.showInformationMessage('Pattern analysis copied as Markdown.');
+        return;
+    }
+
+    const content = chosen === 'markdown' ? toMarkdown(report) : chosen === 'json' ? toJson(report) : toSarif(report, toolVersion);
+    const { extension, filter } = FORMATS[chosen];
+    const name = `pattern-analysis-${report.timestamp.slice(0, 19).replace(/:/g, '-')}.${extension}`;
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: folder ? vscode.Uri.joinPath(folder, name) : undefined,
+        filters: { [filter]: [extension] },
+        saveLabel: 'Export'
+    });
+    if (!target) {
+        return;
+    }
+
+    await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(content));
+    const open = 'Open';
+    if (await vscode.window.showInformationMessage(`Pattern analysis exported to ${vscode.workspace.asRelativePath(target)}.`, open) === open) {
+        await vscode.window.showTextDocument(target);
+    }
+}
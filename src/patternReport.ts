@@ -0,0 +1,404 @@
+import * as vscode from 'vscode';
+import { LLMError } from './errors';
+import { describeAnswer, FallbackProvider, ProviderAnswer } from './fallback';
+import { analyzeCodePatterns, CodeAntiPattern, linesToRange, PatternAnalysis, PatternDiagnostics } from './patternAnalysis';
+import { LLMFactory } from './providers';
+import { StructuredResult } from './structuredOutput';
+
+export type FindingKind = 'antiPattern' | 'pattern' | 'recommendation';
+
+export interface PatternFinding {
+    kind: FindingKind;
+    uri: vscode.Uri;
+    range: vscode.Range;
+    // The source text of `range`; empty for design patterns, which point at their chunk
+    code: string;
+    title: string;
+    detail: string;
+    severity?: CodeAntiPattern['severity'];
+    // Replacement code for `range` (recommendations only)
+    example?: string;
+}
+
+// One reply of the model, for the code in `range`
+export interface AnalyzedChunk {
+    uri: vscode.Uri;
+    range: vscode.Range;
+    analysis: PatternAnalysis;
+    partial: boolean;
+}
+
+export interface PatternReport {
+    // What was analyzed, e.g. "src/providers.ts" or "the workspace"
+    scope: string;
+    // Provider id as used in settings, e.g. "groq"
+    provider: string;
+    model: string;
+    // The providers that answered, in order of their first answer; these differ from the selected
+    // provider above when fallback providers answered some or all of the chunks
+    answeredBy: { provider: string; model: string }[];
+    // ISO 8601 start time of the analysis
+    timestamp: string;
+    chunks: AnalyzedChunk[];
+    findings: PatternFinding[];
+    filesAnalyzed: number;
+    skipped: vscode.Uri[];
+    // Files and chunks whose analysis failed, came back partial or was answered by a fallback provider
+    problems: string[];
+    cancelled: boolean;
+    // The provider error that ended the analysis early, e.g. a missing API key
+    error?: LLMError;
+}
+
+export function getAnalysisLimits() {
+    const config = vscode.workspace.getConfiguration('codeAssistant.analysis');
+    return {
+        maxFiles: config.get<number>('maxFiles', 100),
+        maxFileSizeBytes: config.get<number>('maxFileSizeKb', 256) * 1024,
+        chunkLines: Math.max(20, config.get<number>('chunkLines', 300))
+    };
+}
+
+// Splits a document into ranges of at most `maxLines` lines; blank chunks are left out
+function chunkDocument(document: vscode.TextDocument, maxLines: number): vscode.Range[] {
+    const chunks: vscode.Range[] = [];
+    for (let start = 0; start < document.lineCount; start += maxLines) {
+        const end = document.lineAt(Math.min(start + maxLines, document.lineCount) - 1);
+        const range = new vscode.Range(start, 0, end.lineNumber, end.range.end.character);
+        if (document.getText(range).trim()) {
+            chunks.push(range);
+        }
+    }
+    return chunks;
+}
+
+function toFindings(document: vscode.TextDocument, analysis: PatternAnalysis, chunk: vscode.Range): PatternFinding[] {
+    const uri = document.uri;
+    // Design patterns only come with a free-text location, so they point at the chunk
+    const chunkStart = new vscode.Range(chunk.start, chunk.start);
+    const located = (startLine: unknown, endLine: unknown) => {
+        const range = linesToRange(document, startLine, endLine) ?? chunkStart;
+        return { range, code: document.getText(range) };
+    };
+    return [
+        ...analysis.antiPatterns.map(antiPattern => ({
+            kind: 'antiPattern' as const,
+            uri,
+            ...located(antiPattern.startLine, antiPattern.endLine),
+            title: antiPattern.issue,
+            detail: `**Impact:** ${antiPattern.impact}\n\n**Solution:** ${antiPattern.solution}`,
+            severity: antiPattern.severity
+        })),
+        ...analysis.patterns.map(pattern => ({
+            kind: 'pattern' as const,
+            uri,
+            range: chunkStart,
+            code: '',
+            title: pattern.name,
+            detail: `${pattern.description}\n\n**Location:** ${pattern.location}\n\n**Impact:** ${pattern.impact}`
+        })),
+        ...analysis.recommendations.map(recommendation => ({
+            kind: 'recommendation' as const,
+            uri,
+            ...located(recommendation.startLine, recommendation.endLine),
+            title: recommendation.title,
+            detail: recommendation.details,
+            example: recommendation.example
+        }))
+    ];
+}
+
+export function createReport(scope: string, provider: string, skipped: vscode.Uri[] = []): PatternReport {
+    return {
+        scope,
+        provider,
+        model: LLMFactory.getDefaultModel(provider),
+        answeredBy: [],
+        timestamp: new Date().toISOString(),
+        chunks: [],
+        findings: [],
+        filesAnalyzed: 0,
+        skipped,
+        problems: [],
+        cancelled: false
+    };
+}
+
+// Adds the analysis of `range` in `document`, answered by `answer`, to `report`
+export function addAnalysis(report: PatternReport, document: vscode.TextDocument, range: vscode.Range, result: StructuredResult<PatternAnalysis>, answer?: ProviderAnswer): void {
+    report.chunks.push({ uri: document.uri, range, analysis: result.value, partial: result.partial });
+    report.findings.push(...toFindings(document, result.value, range));
+    if (answer && !report.answeredBy.some(known => known.provider === answer.provider && known.model === answer.model)) {
+        report.answeredBy.push({ provider: answer.provider, model: answer.model });
+    }
+}
+
+/**
+ * Analyzes `files` one chunk of `chunkLines` lines at a time and collects the findings. Anti-patterns
+ * and recommendations are also published to `diagnostics`. Stops early, keeping what was found so
+ * far, when `token` is cancelled (which also cancels the request in flight) or on a provider error
+ * that would fail every request (e.g. a missing API key); that error is kept in `report.error`. A
+ * file cancelled part way keeps its findings in the report but is neither counted nor published.
+ */
+export async function runPatternAnalysis(
+    providerType: string,
+    files: vscode.Uri[],
+    skipped: vscode.Uri[],
+    scope: string,
+    diagnostics: PatternDiagnostics,
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    token: vscode.CancellationToken
+): Promise<PatternReport> {
+    const { chunkLines } = getAnalysisLimits();
+    const provider = FallbackProvider.create(providerType);
+    const report = createReport(scope, providerType, skipped);
+    const request = new AbortController();
+    const cancellation = token.onCancellationRequested(() => request.abort());
+
+    for (const uri of files) {
+        const name = vscode.workspace.asRelativePath(uri);
+        if (token.isCancellationRequested || report.error) {
+            break;
+        }
+        let document: vscode.TextDocument;
+        try {
+            document = await vscode.workspace.openTextDocument(uri);
+        } catch (error) {
+            report.problems.push(`${name}: ${(error as Error).message}`);
+            continue;
+        }
+
+        const chunks = chunkDocument(document, chunkLines);
+        const merged: PatternAnalysis = {
+            patterns: [],
+            antiPatterns: [],
+            recommendations: [],
+            performance_metrics: { time_complexity: '', space_complexity: '', potential_bottlenecks: [] }
+        };
+        let analyzed = 0;
+        for (const [index, chunk] of chunks.entries()) {
+            if (token.isCancellationRequested || report.error) {
+                break;
+            }
+            progress.report({ message: chunks.length > 1 ? `${name} (part ${index + 1} of ${chunks.length})` : name });
+            const lines = `${name}, lines ${chunk.start.line + 1}-${chunk.end.line + 1}`;
+            try {
+                const result = await analyzeCodePatterns(document, chunk, provider, request.signal);
+                if (result.partial) {
+                    report.problems.push(`${lines}: partial results (${result.errors.length} validation errors)`);
+                }
+                if (provider.failedOver && provider.answeredBy) {
+                    report.problems.push(`${lines}: ${describeAnswer(provider.answeredBy)}`);
+                }
+                addAnalysis(report, document, chunk, result, provider.answeredBy);
+                merged.patterns.push(...result.value.patterns);
+                merged.antiPatterns.push(...result.value.antiPatterns);
+                merged.recommendations.push(...result.value.recommendations);
+                analyzed++;
+            } catch (error) {
+                if (token.isCancellationRequested) {
+                    break;
+                }
+                // Auth, quota and configuration problems would fail every remaining chunk as well
+                if (error instanceof LLMError && !error.retryable && error.kind !== 'unknown') {
+                    report.error = error;
+                    report.problems.push(`${lines}: ${error.describe()}`);
+                } else {
+                    report.problems.push(`${lines}: ${(error as Error).message}`);
+                }
+            }
+        }
+
+        if (token.isCancellationRequested) {
+            // Publishing would replace the file's earlier diagnostics with a part of them
+            if (analyzed > 0) {
+                report.problems.push(`${name}: partial, cancelled after ${analyzed} of ${chunks.length} parts`);
+            }
+            break;
+        }
+        diagnostics.publish(document, merged, new vscode.Range(0, 0, 0, 0));
+        report.filesAnalyzed++;
+        progress.report({ increment: 100 / files.length });
+    }
+    cancellation.dispose();
+    report.cancelled = token.isCancellationRequested;
+    return report;
+}
+
+export function describeReport(report: PatternReport): string {
+    const files = `${report.filesAnalyzed} file${report.filesAnalyzed === 1 ? '' : 's'}`;
+    const skipped = report.skipped.length > 0 ? `, ${report.skipped.length} skipped` : '';
+    const ended = report.cancelled ? ' (cancelled)' : report.error ? ` (stopped: ${report.error.title})` : '';
+    return `${report.findings.length} findings in ${files} of ${report.scope}${skipped}${ended}`;
+}
+
+//## Sidebar tree of the last report
+
+export type ReportGrouping = 'file' | 'severity' | 'type';
+
+type ReportNode =
+    | { type: 'group'; label: string; description?: string; icon?: vscode.ThemeIcon; resourceUri?: vscode.Uri; children: ReportNode[] }
+    | { type: 'finding'; finding: PatternFinding }
+    | { type: 'message'; label: string; icon: vscode.ThemeIcon };
+
+interface GroupKey {
+    id: string;
+    label: string;
+    order: number;
+    icon?: vscode.ThemeIcon;
+    resourceUri?: vscode.Uri;
+}
+
+const SEVERITY_ORDER: Record<CodeAntiPattern['severity'], number> = { high: 0, medium: 1, low: 2 };
+const SEVERITY_ICONS: Record<CodeAntiPattern['severity'], vscode.ThemeIcon> = {
+    high: new vscode.ThemeIcon('error', new vscode.ThemeColor('list.errorForeground')),
+    medium: new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground')),
+    low: new vscode.ThemeIcon('info')
+};
+const KINDS: Record<FindingKind, { label: string; order: number; icon: vscode.ThemeIcon }> = {
+    antiPattern: { label: 'Anti-patterns', order: 0, icon: new vscode.ThemeIcon('warning') },
+    pattern: { label: 'Design patterns', order: 1, icon: new vscode.ThemeIcon('symbol-class') },
+    recommendation: { label: 'Recommendations', order: 2, icon: new vscode.ThemeIcon('lightbulb') }
+};
+
+function findingIcon(finding: PatternFinding): vscode.ThemeIcon {
+    return finding.severity ? SEVERITY_ICONS[finding.severity] : KINDS[finding.kind].icon;
+}
+
+function fileKey(finding: PatternFinding): GroupKey {
+    return { id: finding.uri.toString(), label: vscode.workspace.asRelativePath(finding.uri), order: 0, resourceUri: finding.uri };
+}
+
+function kindKey(finding: PatternFinding): GroupKey {
+    const kind = KINDS[finding.kind];
+    return { id: finding.kind, label: kind.label, order: kind.order, icon: kind.icon };
+}
+
+// Anti-patterns by severity; design patterns and recommendations have none and follow them
+function severityKey(finding: PatternFinding): GroupKey {
+    if (!finding.severity) {
+        return { ...kindKey(finding), order: 3 + KINDS[finding.kind].order };
+    }
+    const label = finding.severity[0].toUpperCase() + finding.severity.slice(1);
+    return { id: finding.severity, label: `${label} severity`, order: SEVERITY_ORDER[finding.severity], icon: SEVERITY_ICONS[finding.severity] };
+}
+
+const GROUPINGS: Record<ReportGrouping, ((finding: PatternFinding) => GroupKey)[]> = {
+    file: [fileKey],
+    severity: [severityKey, fileKey],
+    type: [kindKey, fileKey]
+};
+
+function compareFindings(a: PatternFinding, b: PatternFinding): number {
+    return KINDS[a.kind].order - KINDS[b.kind].order
+        || (a.severity && b.severity ? SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] : 0)
+        || a.range.start.line - b.range.start.line;
+}
+
+function groupFindings(findings: PatternFinding[], levels: ((finding: PatternFinding) => GroupKey)[]): ReportNode[] {
+    if (levels.length === 0) {
+        return [...findings].sort(compareFindings).map(finding => ({ type: 'finding', finding }));
+    }
+    const groups = new Map<string, { key: GroupKey; findings: PatternFinding[] }>();
+    for (const finding of findings) {
+        const key = levels[0](finding);
+        const group = groups.get(key.id) ?? { key, findings: [] };
+        group.findings.push(finding);
+        groups.set(key.id, group);
+    }
+    return [...groups.values()]
+        .sort((a, b) => a.key.order - b.key.order || a.key.label.localeCompare(b.key.label))
+        .map(({ key, findings: members }) => ({
+            type: 'group',
+            label: key.label,
+            description: String(members.length),
+            icon: key.icon,
+            resourceUri: key.resourceUri,
+            children: groupFindings(members, levels.slice(1))
+        }));
+}
+
+export class PatternReportProvider implements vscode.TreeDataProvider<ReportNode> {
+    private readonly changed = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this.changed.event;
+
+    private report: PatternReport | undefined;
+    private grouping: ReportGrouping = 'file';
+    private roots: ReportNode[] = [];
+
+    get currentReport(): PatternReport | undefined {
+        return this.report;
+    }
+
+    setReport(report: PatternReport | undefined): void {
+        this.report = report;
+        this.refresh();
+    }
+
+    setGrouping(grouping: ReportGrouping): void {
+        this.grouping = grouping;
+        this.refresh();
+    }
+
+    private refresh(): void {
+        const report = this.report;
+        this.roots = report ? groupFindings(report.findings, GROUPINGS[this.grouping]) : [];
+        if (report && report.problems.length > 0) {
+            this.roots.push({
+                type: 'group',
+                label: 'Problems',
+                description: String(report.problems.length),
+                icon: new vscode.ThemeIcon('alert'),
+                children: report.problems.map(problem => ({ type: 'message', label: problem, icon: new vscode.ThemeIcon('circle-slash') }))
+            });
+        }
+        if (report && report.skipped.length > 0) {
+            this.roots.push({
+                type: 'group',
+                label: 'Skipped files (size or file count limit)',
+                description: String(report.skipped.length),
+                icon: new vscode.ThemeIcon('debug-step-over'),
+                children: report.skipped.map(uri => ({ type: 'message', label: vscode.workspace.asRelativePath(uri), icon: vscode.ThemeIcon.File }))
+            });
+        }
+        this.changed.fire();
+    }
+
+    getTreeItem(node: ReportNode): vscode.TreeItem {
+        switch (node.type) {
+            case 'group': {
+                const item = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.Expanded);
+                item.description = node.description;
+                item.iconPath = node.icon ?? (node.resourceUri ? vscode.ThemeIcon.File : undefined);
+                item.resourceUri = node.resourceUri;
+                return item;
+            }
+            case 'message': {
+                const item = new vscode.TreeItem(node.label);
+                item.iconPath = node.icon;
+                item.tooltip = node.label;
+                return item;
+            }
+            case 'finding': {
+                const { finding } = node;
+                const item = new vscode.TreeItem(finding.title);
+                item.description = `Ln ${finding.range.start.line + 1}${finding.severity ? ` · ${finding.severity}` : ''}`;
+                item.tooltip = new vscode.MarkdownString(`**${finding.title}**\n\n${finding.detail}`);
+                item.iconPath = findingIcon(finding);
+                item.command = {
+                    command: 'vscode.open',
+                    title: 'Open',
+                    arguments: [finding.uri, { selection: finding.range } as vscode.TextDocumentShowOptions]
+                };
+                return item;
+            }
+        }
+    }
+
+    getChildren(node?: ReportNode): ReportNode[] {
+        if (!node) {
+            return this.roots;
+        }
+        return node.type === 'group' ? node.children : [];
+    }
+}
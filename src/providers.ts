@@ -0,0 +1,725 @@
+import * as vscode from 'vscode';
+import axios, { AxiosResponse, isAxiosError } from 'axios';
+import { Content, GoogleGenerativeAI, Schema, SchemaType, UsageMetadata } from '@google/generative-ai';
+import OpenAI, { AzureOpenAI } from 'openai';
+import { ApiKeyProvider, ApiKeyStore } from './apiKeys';
+import { getRequestSettings, LLMError, toLLMError, withRetry } from './errors';
+import { JsonSchema } from './jsonSchema';
+import { TokenUsage, UsageStore } from './usage';
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface GenerationOptions {
+    // Requests a JSON reply: JSON mode on OpenAI-compatible APIs, a constrained schema on Gemini.
+    // The reply still has to be validated; see structuredOutput.ts.
+    responseSchema?: JsonSchema;
+    // Cancels the request; it then fails with a 'cancelled' LLMError
+    signal?: AbortSignal;
+}
+
+export interface LLMResponse {
+    text: string;
+    usage: TokenUsage;
+}
+
+// Implementations throw an LLMError (see errors.ts) when a request fails
+export interface LLMProvider {
+    generateResponse(messages: ChatMessage[], model?: string, options?: GenerationOptions): Promise<LLMResponse>;
+}
+
+// Context window sizes (in tokens) for the models offered in the chat panel.
+// Unknown models (self-hosted, newly released) fall back to a conservative default.
+const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+    'llama-3.1-8b-instant': 131072,
+    'gemma2-9b-it': 8192,
+    'gemini-1.5-pro': 2097152,
+    'gemini-1.5-flash': 1048576,
+    'gpt-4o': 128000,
+    'gpt-4o-mini': 128000,
+    'gpt-3.5-turbo': 16385
+};
+const DEFAULT_CONTEXT_WINDOW = 8192;
+const RESPONSE_TOKEN_RESERVE = 1024;
+
+export function getContextWindow(model: string): number {
+    return MODEL_CONTEXT_WINDOWS[model] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+// Rough estimate (~4 characters per token) – good enough to keep requests under the limit
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+// Wraps a single prompt for callers that do not keep a conversation
+export function userMessage(prompt: string): ChatMessage[] {
+    return [{ role: 'user', content: prompt }];
+}
+
+/**
+ * Drops the oldest user/assistant turns until the conversation fits the model's context
+ * window, leaving room for the reply. System messages and the latest turn are always kept.
+ */
+export function trimHistory(messages: ChatMessage[], model: string): ChatMessage[] {
+    const budget = getContextWindow(model) - RESPONSE_TOKEN_RESERVE;
+    const system = messages.filter(m => m.role === 'system');
+    const turns = messages.filter(m => m.role !== 'system');
+    let used = [...system, ...turns].reduce((sum, m) => sum + estimateTokens(m.content), 0);
+
+    while (turns.length > 1 && used > budget) {
+        used -= estimateTokens(turns.shift()!.content);
+    }
+    // A conversation must not open with an assistant turn (Gemini rejects it)
+    while (turns.length > 1 && turns[0].role === 'assistant') {
+        turns.shift();
+    }
+    return [...system, ...turns];
+}
+
+/**
+ * Providers that can deliver a reply incrementally. The generator yields text chunks as they
+ * arrive and stops early, without throwing, once `signal` is aborted. It returns the token
+ * usage of the request, or undefined if it was stopped before the provider replied.
+ */
+export interface StreamingLLMProvider extends LLMProvider {
+    streamResponse(messages: ChatMessage[], model?: string, signal?: AbortSignal): AsyncGenerator<string, TokenUsage | undefined>;
+}
+
+export function isStreamingProvider(provider: LLMProvider): provider is StreamingLLMProvider {
+    return typeof (provider as StreamingLLMProvider).streamResponse === 'function';
+}
+
+export interface ModelInfo {
+    id: string;
+    name: string;
+}
+
+// Providers that can tell which models are available to them
+export interface ModelListingProvider extends LLMProvider {
+    listModels(): Promise<ModelInfo[]>;
+}
+
+export function isModelListingProvider(provider: LLMProvider): provider is ModelListingProvider {
+    return typeof (provider as ModelListingProvider).listModels === 'function';
+}
+
+// Providers that can turn text into vectors for semantic search; one vector per text, in order
+export interface EmbeddingProvider extends LLMProvider {
+    embed(texts: string[], model?: string): Promise<number[][]>;
+}
+
+export function isEmbeddingProvider(provider: LLMProvider): provider is EmbeddingProvider {
+    return typeof (provider as EmbeddingProvider).embed === 'function';
+}
+
+/**
+ * Returns the whole reply, streaming it when the provider can so that `signal` actually
+ * cancels the underlying request.
+ */
+export async function collectResponse(provider: LLMProvider, messages: ChatMessage[], model?: string, signal?: AbortSignal): Promise<string> {
+    if (!isStreamingProvider(provider)) {
+        return (await provider.generateResponse(messages, model)).text;
+    }
+    let response = '';
+    for await (const chunk of provider.streamResponse(messages, model, signal)) {
+        response += chunk;
+    }
+    return response;
+}
+
+/**
+ * Records the usage of a finished request. Counts the provider did not report are estimated
+ * from the text that was sent and received.
+ */
+function recordUsage(provider: string, model: string, messages: ChatMessage[], text: string, promptTokens?: number, completionTokens?: number): TokenUsage {
+    const usage: TokenUsage = promptTokens !== undefined && completionTokens !== undefined
+        ? { promptTokens, completionTokens }
+        : { promptTokens: messages.reduce((sum, m) => sum + estimateTokens(m.content), 0), completionTokens: estimateTokens(text), estimated: true };
+    UsageStore.record(provider, model, usage).catch(error => console.error('Recording usage failed:', error));
+    return usage;
+}
+
+async function requireApiKey(provider: ApiKeyProvider): Promise<string> {
+    const apiKey = await ApiKeyStore.require(provider);
+    if (!apiKey) {
+        throw new LLMError('auth', provider, ApiKeyStore.missingKeyMessage(provider));
+    }
+    return apiKey;
+}
+
+interface CompletionUsage {
+    prompt_tokens: number;
+    completion_tokens: number;
+}
+
+interface ChatCompletionResponse {
+    choices: { message?: { content?: string } }[];
+    usage?: CompletionUsage;
+}
+
+// Groq reports the usage of a stream in `x_groq` of its last chunk
+interface ChatCompletionChunk {
+    choices: { delta?: { content?: string } }[];
+    usage?: CompletionUsage | null;
+    x_groq?: { usage?: CompletionUsage };
+}
+
+// Yields the `data:` payload of each server-sent event in the stream
+async function* readServerSentEvents(stream: AsyncIterable<Uint8Array>): AsyncGenerator<string> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for await (const bytes of stream) {
+        buffer += decoder.decode(bytes, { stream: true }).replace(/\r\n/g, '\n');
+        let boundary: number;
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+            const event = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary + 2);
+            const data = event
+                .split('\n')
+                .filter(line => line.startsWith('data:'))
+                .map(line => line.slice(5).trimStart())
+                .join('\n');
+            if (data) {
+                yield data;
+            }
+        }
+    }
+}
+
+// With `responseType: 'stream'` axios hands back the error body unparsed
+async function readStreamedErrorMessage(data: unknown): Promise<string | undefined> {
+    if (!data || typeof (data as AsyncIterable<Uint8Array>)[Symbol.asyncIterator] !== 'function') {
+        return undefined;
+    }
+    let body = '';
+    for await (const bytes of data as AsyncIterable<Uint8Array>) {
+        body += Buffer.from(bytes).toString('utf8');
+    }
+    try {
+        // OpenAI-style APIs send { error: { message } }, Ollama { error: "..." }
+        const error = JSON.parse(body)?.error;
+        return typeof error === 'string' ? error : error?.message;
+    } catch {
+        return body || undefined;
+    }
+}
+
+//## Groq Provider
+export class GroqProvider implements StreamingLLMProvider, ModelListingProvider {
+    private static readonly endpoint = 'https://api.groq.com/openai/v1/chat/completions';
+    private static readonly modelsEndpoint = 'https://api.groq.com/openai/v1/models';
+    static readonly defaultModel = 'llama-3.1-8b-instant';
+
+    // Speech models are listed as well, but cannot chat
+    async listModels(): Promise<ModelInfo[]> {
+        const apiKey = await requireApiKey('groq');
+        const { timeoutMs } = getRequestSettings();
+        const response: AxiosResponse<{ data: { id: string; active?: boolean }[] }> = await withRetry('groq', () => axios.get(
+            GroqProvider.modelsEndpoint,
+            { headers: { 'Authorization': `Bearer ${apiKey}` }, timeout: timeoutMs }
+        ));
+        return response.data.data
+            .filter(model => model.active !== false && !/whisper|tts/.test(model.id))
+            .map(model => ({ id: model.id, name: model.id }))
+            .sort((a, b) => a.id.localeCompare(b.id));
+    }
+
+    async generateResponse(messages: ChatMessage[], model: string = GroqProvider.defaultModel, options?: GenerationOptions): Promise<LLMResponse> {
+        const apiKey = await requireApiKey('groq');
+        const { timeoutMs } = getRequestSettings();
+        const trimmed = trimHistory(messages, model);
+
+        const response: AxiosResponse<ChatCompletionResponse> = await withRetry('groq', () => axios.post(
+            GroqProvider.endpoint,
+            {
+                model,
+                messages: trimmed,
+                response_format: options?.responseSchema ? { type: 'json_object' } : undefined
+            },
+            { headers: { 'Authorization': `Bearer ${apiKey}` }, timeout: timeoutMs, signal: options?.signal }
+        ), options?.signal);
+        const text = response.data.choices[0]?.message?.content?.trim() ?? '';
+        const { usage } = response.data;
+        return { text, usage: recordUsage('groq', model, trimmed, text, usage?.prompt_tokens, usage?.completion_tokens) };
+    }
+
+    async *streamResponse(messages: ChatMessage[], model: string = GroqProvider.defaultModel, signal?: AbortSignal): AsyncGenerator<string, TokenUsage | undefined> {
+        const apiKey = await requireApiKey('groq');
+        const { timeoutMs } = getRequestSettings();
+        const trimmed = trimHistory(messages, model);
+
+        let response: AxiosResponse<AsyncIterable<Uint8Array>>;
+        try {
+            response = await withRetry('groq', async () => {
+                try {
+                    return await axios.post(
+                        GroqProvider.endpoint,
+                        { model, messages: trimmed, stream: true },
+                        { headers: { 'Authorization': `Bearer ${apiKey}` }, responseType: 'stream', signal, timeout: timeoutMs }
+                    );
+                } catch (error) {
+                    if (isAxiosError(error) && !signal?.aborted) {
+                        throw toLLMError(error, 'groq', await readStreamedErrorMessage(error.response?.data));
+                    }
+                    throw error;
+                }
+            }, signal);
+        } catch (error) {
+            if (signal?.aborted || axios.isCancel(error)) {
+                return;
+            }
+            throw toLLMError(error, 'groq');
+        }
+
+        let text = '';
+        let usage: CompletionUsage | undefined;
+        try {
+            for await (const data of readServerSentEvents(response.data)) {
+                if (data === '[DONE]') {
+                    break;
+                }
+                const chunk: ChatCompletionChunk = JSON.parse(data);
+                usage = chunk.x_groq?.usage ?? chunk.usage ?? usage;
+                const content = chunk.choices[0]?.delta?.content;
+                if (content) {
+                    text += content;
+                    yield content;
+                }
+            }
+        } catch (error) {
+            if (!signal?.aborted && !axios.isCancel(error)) {
+                throw toLLMError(error, 'groq');
+            }
+        }
+        return recordUsage('groq', model, trimmed, text, usage?.prompt_tokens, usage?.completion_tokens);
+    }
+}
+
+//## Gemini Provider (re-introduced and updated)
+export class GeminiProvider implements StreamingLLMProvider, ModelListingProvider {
+    static readonly defaultModel = 'gemini-1.5-pro';
+
+    // Embedding and other non-chat models do not support generateContent
+    async listModels(): Promise<ModelInfo[]> {
+        const apiKey = await requireApiKey('gemini');
+        const { timeoutMs } = getRequestSettings();
+        const response: AxiosResponse<{ models?: { name: string; displayName?: string; supportedGenerationMethods?: string[] }[] }> = await withRetry('gemini', () => axios.get(
+            'https://generativelanguage.googleapis.com/v1beta/models',
+            { params: { pageSize: 1000 }, headers: { 'x-goog-api-key': apiKey }, timeout: timeoutMs }
+        ));
+        return (response.data.models ?? [])
+            .filter(model => model.supportedGenerationMethods?.includes('generateContent'))
+            .map(model => {
+                const id = model.name.replace(/^models\//, '');
+                return { id, name: model.displayName && model.displayName !== id ? `${model.displayName} (${id})` : id };
+            })
+            .sort((a, b) => a.id.localeCompare(b.id));
+    }
+
+    private startChat(apiKey: string, messages: ChatMessage[], model: string, options?: GenerationOptions) {
+        const genAI = new GoogleGenerativeAI(apiKey);
+        const generationConfig = options?.responseSchema
+            ? { responseMimeType: 'application/json', responseSchema: GeminiProvider.toSchema(options.responseSchema) }
+            : undefined;
+        const geminiModel = genAI.getGenerativeModel({ model, generationConfig }, { timeout: getRequestSettings().timeoutMs });
+        const contents = GeminiProvider.toContents(trimHistory(messages, model));
+        const latest = contents.pop();
+        return { chat: geminiModel.startChat({ history: contents }), latest: latest?.parts ?? [] };
+    }
+
+    async generateResponse(messages: ChatMessage[], model: string = GeminiProvider.defaultModel, options?: GenerationOptions): Promise<LLMResponse> {
+        const apiKey = await requireApiKey('gemini');
+
+        const response = await withRetry('gemini', async () => {
+            const { chat, latest } = this.startChat(apiKey, messages, model, options);
+            const result = await chat.sendMessage(latest, { signal: options?.signal });
+            return result.response;
+        }, options?.signal);
+        const text = response.text();
+        const usage = response.usageMetadata;
+        return { text, usage: recordUsage('gemini', model, trimHistory(messages, model), text, usage?.promptTokenCount, usage?.candidatesTokenCount) };
+    }
+
+    async *streamResponse(messages: ChatMessage[], model: string = GeminiProvider.defaultModel, signal?: AbortSignal): AsyncGenerator<string, TokenUsage | undefined> {
+        const apiKey = await requireApiKey('gemini');
+
+        let text = '';
+        let usage: UsageMetadata | undefined;
+        try {
+            const result = await withRetry('gemini', () => {
+                const { chat, latest } = this.startChat(apiKey, messages, model);
+                return chat.sendMessageStream(latest, { signal });
+            }, signal);
+            for await (const chunk of result.stream) {
+                if (signal?.aborted) {
+                    break;
+                }
+                // Every chunk carries the counts so far
+                usage = chunk.usageMetadata ?? usage;
+                text += chunk.text();
+                yield chunk.text();
+            }
+        } catch (error) {
+            if (!signal?.aborted) {
+                throw toLLMError(error, 'gemini');
+            }
+        }
+        return recordUsage('gemini', model, trimHistory(messages, model), text, usage?.promptTokenCount, usage?.candidatesTokenCount);
+    }
+
+    // Gemini only knows "user" and "model" turns, which must alternate. System prompts are
+    // folded into the following user turn and consecutive turns of the same role are merged.
+    private static toContents(messages: ChatMessage[]): Content[] {
+        const turns: { role: string; text: string }[] = [];
+        let pendingSystem = '';
+        for (const message of messages) {
+            if (message.role === 'system') {
+                pendingSystem += `${message.content}\n\n`;
+                continue;
+            }
+            const role = message.role === 'assistant' ? 'model' : 'user';
+            const text = role === 'user' ? pendingSystem + message.content : message.content;
+            if (role === 'user') {
+                pendingSystem = '';
+            }
+            const previous = turns[turns.length - 1];
+            if (previous?.role === role) {
+                previous.text += `\n\n${text}`;
+            } else {
+                turns.push({ role, text });
+            }
+        }
+        return turns.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }));
+    }
+
+    private static toSchema(schema: JsonSchema): Schema {
+        const { description } = schema;
+        switch (schema.type) {
+            case 'string':
+                return schema.enum
+                    ? { type: SchemaType.STRING, format: 'enum', enum: schema.enum, description }
+                    : { type: SchemaType.STRING, description };
+            case 'number':
+                return { type: SchemaType.NUMBER, description };
+            case 'integer':
+                return { type: SchemaType.INTEGER, description };
+            case 'boolean':
+                return { type: SchemaType.BOOLEAN, description };
+            case 'array':
+                return { type: SchemaType.ARRAY, items: GeminiProvider.toSchema(schema.items), description };
+            case 'object':
+                return {
+                    type: SchemaType.OBJECT,
+                    properties: Object.fromEntries(Object.entries(schema.properties).map(([key, property]) => [key, GeminiProvider.toSchema(property)])),
+                    required: schema.required,
+                    description
+                };
+        }
+    }
+}
+
+//## OpenAI Provider (OpenAI, Azure OpenAI and OpenAI-compatible servers)
+export class OpenAIProvider implements StreamingLLMProvider, ModelListingProvider, EmbeddingProvider {
+    static get defaultModel(): string {
+        return vscode.workspace.getConfiguration('codeAssistant.gpt').get<string>('model', 'gpt-3.5-turbo');
+    }
+
+    static readonly defaultEmbeddingModel = 'text-embedding-3-small';
+
+    private async getConfig() {
+        const config = vscode.workspace.getConfiguration('codeAssistant.gpt');
+        const baseUrl = config.get<string>('baseUrl', '').trim();
+        const apiVersion = config.get<string>('apiVersion', '').trim();
+        // Self-hosted servers usually run without a key, so only OpenAI and Azure prompt for one
+        const needsKey = !baseUrl || !!apiVersion;
+        return {
+            apiKey: (needsKey ? await ApiKeyStore.require('gpt') : await ApiKeyStore.get('gpt')) ?? '',
+            model: OpenAIProvider.defaultModel,
+            baseUrl,
+            apiVersion
+        };
+    }
+
+    // Azure is selected by setting an API version; any other base URL is treated as
+    // an OpenAI-compatible server (vLLM, llama.cpp server, LM Studio) that may not need a key.
+    // Retries are done by withRetry, so the SDK's own retry loop is switched off
+    private createClient(apiKey: string, baseUrl: string, apiVersion: string, model: string): OpenAI {
+        const { timeoutMs } = getRequestSettings();
+        if (apiVersion) {
+            return new AzureOpenAI({ apiKey, endpoint: baseUrl, apiVersion, deployment: model, timeout: timeoutMs, maxRetries: 0 });
+        }
+        return new OpenAI({ apiKey: apiKey || 'not-needed', baseURL: baseUrl || undefined, timeout: timeoutMs, maxRetries: 0 });
+    }
+
+    private validateConfig(config: Awaited<ReturnType<OpenAIProvider['getConfig']>>): void {
+        if (!config.apiKey && (!config.baseUrl || config.apiVersion)) {
+            throw new LLMError('auth', 'gpt', ApiKeyStore.missingKeyMessage('gpt'));
+        }
+        if (config.apiVersion && !config.baseUrl) {
+            throw new LLMError('config', 'gpt', 'Azure OpenAI requires codeAssistant.gpt.baseUrl to be set to your resource endpoint.');
+        }
+    }
+
+    // OpenAI also lists embedding, audio and image models; self-hosted servers list what they serve.
+    // Azure only lists deployments through its management API, so the configured one is offered.
+    async listModels(): Promise<ModelInfo[]> {
+        const config = await this.getConfig();
+        this.validateConfig(config);
+        if (config.apiVersion) {
+            return [{ id: config.model, name: config.model }];
+        }
+
+        const client = this.createClient(config.apiKey, config.baseUrl, config.apiVersion, config.model);
+        const page = await withRetry('gpt', () => client.models.list());
+        return page.data
+            .map(model => model.id)
+            .filter(id => config.baseUrl || (/^(gpt-|o\d|chatgpt-)/.test(id) && !/instruct|audio|realtime|transcribe|tts|image|search/.test(id)))
+            .sort()
+            .map(id => ({ id, name: id }));
+    }
+
+    async generateResponse(messages: ChatMessage[], model?: string, options?: GenerationOptions): Promise<LLMResponse> {
+        const config = await this.getConfig();
+        const modelName = model || config.model;
+        this.validateConfig(config);
+        const trimmed = trimHistory(messages, modelName);
+
+        const client = this.createClient(config.apiKey, config.baseUrl, config.apiVersion, modelName);
+        const completion = await withRetry('gpt', () => client.chat.completions.create({
+            model: modelName,
+            messages: trimmed,
+            response_format: options?.responseSchema ? { type: 'json_object' } : undefined
+        }, { signal: options?.signal }), options?.signal);
+        const text = completion.choices[0]?.message?.content?.trim() ?? '';
+        const { usage } = completion;
+        return { text, usage: recordUsage('gpt', modelName, trimmed, text, usage?.prompt_tokens, usage?.completion_tokens) };
+    }
+
+    async *streamResponse(messages: ChatMessage[], model?: string, signal?: AbortSignal): AsyncGenerator<string, TokenUsage | undefined> {
+        const config = await this.getConfig();
+        const modelName = model || config.model;
+        this.validateConfig(config);
+        const trimmed = trimHistory(messages, modelName);
+
+        let text = '';
+        let usage: OpenAI.CompletionUsage | undefined;
+        try {
+            const client = this.createClient(config.apiKey, config.baseUrl, config.apiVersion, modelName);
+            // Older OpenAI-compatible servers reject stream_options; their usage is estimated
+            const stream = await withRetry('gpt', () => client.chat.completions.create(
+                { model: modelName, messages: trimmed, stream: true, stream_options: config.baseUrl ? undefined : { include_usage: true } },
+                { signal }
+            ), signal);
+            for await (const chunk of stream) {
+                usage = chunk.usage ?? usage;
+                const content = chunk.choices[0]?.delta?.content;
+                if (content) {
+                    text += content;
+                    yield content;
+                }
+            }
+        } catch (error) {
+            if (!signal?.aborted && !(error instanceof OpenAI.APIUserAbortError)) {
+                throw toLLMError(error, 'gpt');
+            }
+        }
+        return recordUsage('gpt', modelName, trimmed, text, usage?.prompt_tokens, usage?.completion_tokens);
+    }
+
+    // On Azure `model` is the name of an embedding deployment
+    async embed(texts: string[], model: string = OpenAIProvider.defaultEmbeddingModel): Promise<number[][]> {
+        const config = await this.getConfig();
+        this.validateConfig(config);
+
+        const client = this.createClient(config.apiKey, config.baseUrl, config.apiVersion, model);
+        const response = await withRetry('gpt', () => client.embeddings.create({ model, input: texts }));
+        recordUsage('gpt', model, texts.map(content => ({ role: 'user', content })), '', response.usage?.prompt_tokens, 0);
+        return [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+    }
+}
+
+//## Ollama Provider (models running locally; no API key, nothing leaves the machine)
+// The last object of a reply (`done: true`) carries the token counts
+interface OllamaChatResponse {
+    message?: { content?: string };
+    done?: boolean;
+    error?: string;
+    prompt_eval_count?: number;
+    eval_count?: number;
+}
+
+interface OllamaTagsResponse {
+    models: { name: string; details?: { parameter_size?: string; quantization_level?: string } }[];
+}
+
+export class OllamaProvider implements StreamingLLMProvider, ModelListingProvider, EmbeddingProvider {
+    static get defaultModel(): string {
+        return vscode.workspace.getConfiguration('codeAssistant.ollama').get<string>('model', 'llama3.1');
+    }
+
+    static readonly defaultEmbeddingModel = 'nomic-embed-text';
+
+    private static get host(): string {
+        const host = vscode.workspace.getConfiguration('codeAssistant.ollama').get<string>('host', '').trim();
+        return (host || 'http://localhost:11434').replace(/\/+$/, '');
+    }
+
+    // Ollama reports errors as { "error": "..." }; a refused connection usually means it is not running
+    private static toError(error: unknown, apiMessage?: string): LLMError {
+        if (error instanceof LLMError) {
+            return error;
+        }
+        const body = isAxiosError(error) ? error.response?.data : undefined;
+        const llmError = toLLMError(error, 'ollama', apiMessage ?? (typeof body?.error === 'string' ? body.error : undefined));
+        if (llmError.kind === 'network') {
+            return new LLMError('network', 'ollama', `Cannot reach Ollama at ${OllamaProvider.host}. Is it running? (${llmError.message})`);
+        }
+        return llmError;
+    }
+
+    async listModels(): Promise<ModelInfo[]> {
+        const { timeoutMs } = getRequestSettings();
+        try {
+            const response: AxiosResponse<OllamaTagsResponse> = await axios.get(`${OllamaProvider.host}/api/tags`, { timeout: timeoutMs });
+            return response.data.models
+                .map(model => {
+                    const details = [model.details?.parameter_size, model.details?.quantization_level].filter(Boolean).join(', ');
+                    return { id: model.name, name: details ? `${model.name} (${details})` : model.name };
+                })
+                .sort((a, b) => a.id.localeCompare(b.id));
+        } catch (error) {
+            throw OllamaProvider.toError(error);
+        }
+    }
+
+    async generateResponse(messages: ChatMessage[], model: string = OllamaProvider.defaultModel, options?: GenerationOptions): Promise<LLMResponse> {
+        const { timeoutMs } = getRequestSettings();
+        const trimmed = trimHistory(messages, model);
+        const response: AxiosResponse<OllamaChatResponse> = await withRetry('ollama', () => axios.post(
+            `${OllamaProvider.host}/api/chat`,
+            {
+                model,
+                messages: trimmed,
+                stream: false,
+                format: options?.responseSchema ? 'json' : undefined
+            },
+            { timeout: timeoutMs, signal: options?.signal }
+        ).catch(error => {
+            throw OllamaProvider.toError(error);
+        }), options?.signal);
+        const text = response.data.message?.content?.trim() ?? '';
+        return { text, usage: recordUsage('ollama', model, trimmed, text, response.data.prompt_eval_count, response.data.eval_count) };
+    }
+
+    async embed(texts: string[], model: string = OllamaProvider.defaultEmbeddingModel): Promise<number[][]> {
+        const { timeoutMs } = getRequestSettings();
+        const response: AxiosResponse<{ embeddings: number[][]; prompt_eval_count?: number }> = await withRetry('ollama', () => axios.post(
+            `${OllamaProvider.host}/api/embed`,
+            { model, input: texts },
+            { timeout: timeoutMs }
+        ).catch(error => {
+            throw OllamaProvider.toError(error);
+        }));
+        recordUsage('ollama', model, texts.map(content => ({ role: 'user', content })), '', response.data.prompt_eval_count, 0);
+        return response.data.embeddings;
+    }
+
+    // The reply streams as newline-delimited JSON objects, the last one with "done": true
+    async *streamResponse(messages: ChatMessage[], model: string = OllamaProvider.defaultModel, signal?: AbortSignal): AsyncGenerator<string, TokenUsage | undefined> {
+        const { timeoutMs } = getRequestSettings();
+        const trimmed = trimHistory(messages, model);
+
+        let response: AxiosResponse<AsyncIterable<Uint8Array>>;
+        try {
+            response = await withRetry('ollama', async () => {
+                try {
+                    return await axios.post(
+                        `${OllamaProvider.host}/api/chat`,
+                        { model, messages: trimmed, stream: true },
+                        { responseType: 'stream', signal, timeout: timeoutMs }
+                    );
+                } catch (error) {
+                    if (isAxiosError(error) && !signal?.aborted) {
+                        throw OllamaProvider.toError(error, await readStreamedErrorMessage(error.response?.data));
+                    }
+                    throw error;
+                }
+            }, signal);
+        } catch (error) {
+            if (signal?.aborted || axios.isCancel(error)) {
+                return;
+            }
+            throw OllamaProvider.toError(error);
+        }
+
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let text = '';
+        try {
+            for await (const bytes of response.data) {
+                buffer += decoder.decode(bytes, { stream: true });
+                let newline: number;
+                while ((newline = buffer.indexOf('\n')) !== -1) {
+                    const line = buffer.slice(0, newline).trim();
+                    buffer = buffer.slice(newline + 1);
+                    if (!line) {
+                        continue;
+                    }
+                    const chunk: OllamaChatResponse = JSON.parse(line);
+                    if (chunk.error) {
+                        throw new LLMError('server', 'ollama', chunk.error);
+                    }
+                    if (chunk.message?.content) {
+                        text += chunk.message.content;
+                        yield chunk.message.content;
+                    }
+                    if (chunk.done) {
+                        return recordUsage('ollama', model, trimmed, text, chunk.prompt_eval_count, chunk.eval_count);
+                    }
+                }
+            }
+        } catch (error) {
+            if (!signal?.aborted && !axios.isCancel(error)) {
+                throw OllamaProvider.toError(error);
+            }
+        }
+        return recordUsage('ollama', model, trimmed, text);
+    }
+}
+
+//## Factory to select the correct provider
+export class LLMFactory {
+    static getProvider(type: string): LLMProvider {
+        switch (type.toLowerCase()) {
+            case 'groq':
+                return new GroqProvider();
+            case 'gemini':
+                return new GeminiProvider();
+            case 'gpt':
+            case 'openai':
+                return new OpenAIProvider();
+            case 'ollama':
+                return new OllamaProvider();
+            default:
+                // Default to Groq if something goes wrong
+                return new GroqProvider();
+        }
+    }
+
+    // Model the provider uses for requests that do not name one
+    static getDefaultModel(type: string): string {
+        switch (type.toLowerCase()) {
+            case 'gemini':
+                return GeminiProvider.defaultModel;
+            case 'gpt':
+            case 'openai':
+                return OpenAIProvider.defaultModel;
+            case 'ollama':
+                return OllamaProvider.defaultModel;
+            default:
+                return GroqProvider.defaultModel;
+        }
+    }
+}
@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+
+// Lines of the file around the selection that are sent along as context
+const CONTEXT_LINES = 40;
+
+export interface SelectionCommand {
+    command: string;
+    title: string;
+    // 'chat' answers in the chat panel; 'diff' proposes a replacement for the selection
+    output: 'chat' | 'diff';
+    instructions: string;
+}
+
+export const SELECTION_COMMANDS: SelectionCommand[] = [
+    {
+        command: 'codesuggestion.explainCode',
+        title: 'Explain Code',
+        output: 'chat',
+        instructions: `Explain what the selected code does, step by step.
+Describe its inputs, outputs and side effects, how it fits into the surrounding code, and any non-obvious behavior or edge cases.`
+    },
+    {
+        command: 'codesuggestion.refactorCode',
+        title: 'Refactor',
+        output: 'diff',
+        instructions: `Refactor the selected code to improve readability, structure and maintainability without changing its behavior.
+Keep the public names and signatures that the surrounding code relies on.`
+    },
+    {
+        command: 'codesuggestion.generateTests',
+        title: 'Generate Unit Tests',
+        output: 'chat',
+        instructions: `Write unit tests for the selected code.
+Use the test framework and conventions that are idiomatic for this language (or that the surrounding code suggests), cover normal cases, edge cases and error paths, and put the tests in a single code block.`
+    },
+    {
+        command: 'codesuggestion.addDocComments',
+        title: 'Add Doc Comments',
+        output: 'diff',
+        instructions: `Add documentation comments to the selected code using the idiomatic doc comment style for this language (e.g. JSDoc/TSDoc, Python docstrings, Javadoc).
+Do NOT change any code; only add or improve comments.`
+    },
+    {
+        command: 'codesuggestion.findAndFixBugs',
+        title: 'Find & Fix Bugs',
+        output: 'diff',
+        instructions: `Find bugs in the selected code (logic errors, off-by-one errors, unhandled errors, null/undefined access, resource leaks, race conditions) and fix them.
+Make the smallest changes that fix the bugs and add a short comment next to each fix explaining it.`
+    }
+];
+
+// Prefixes every line of `range` with its 1-based line number, so replies can refer to lines
+export function numberLines(document: vscode.TextDocument, range: vscode.Range): string {
+    const width = String(range.end.line + 1).length;
+    return document.getText(range)
+        .split(/\r?\n/)
+        .map((line, index) => `${String(range.start.line + index + 1).padStart(width)}| ${line}`)
+        .join('\n');
+}
+
+/**
+ * Builds the prompt for a selection command: the task, the file's language and path,
+ * the selection itself and the code just before and after it.
+ */
+export function buildSelectionPrompt(command: SelectionCommand, editor: vscode.TextEditor): string {
+    const document = editor.document;
+    const selection = editor.selection;
+    const language = document.languageId;
+    const before = document.getText(new vscode.Range(
+        new vscode.Position(Math.max(0, selection.start.line - CONTEXT_LINES), 0),
+        selection.start
+    ));
+    const after = document.getText(new vscode.Range(
+        selection.end,
+        document.lineAt(Math.min(document.lineCount - 1, selection.end.line + CONTEXT_LINES)).range.end
+    ));
+
+    const outputRules = command.output === 'diff'
+        ? `Reply with ONLY the complete replacement for the selected code in a single \`\`\`${language} code block.
+The replacement must fit exactly where the selection is, keep its indentation, and must not repeat the surrounding context.
+Do NOT include explanations outside the code block.`
+        : 'Answer in Markdown and put code in fenced code blocks.';
+
+    return `You are an expert ${language} developer.
+
+TASK:
+${command.instructions}
+
+${outputRules}
+
+File: ${vscode.workspace.asRelativePath(document.uri)} (language: ${language})
+
+Code before the selection:
+\`\`\`${language}
+${before}
+\`\`\`
+
+SELECTED CODE (lines ${selection.start.line + 1}-${selection.end.line + 1}):
+\`\`\`${language}
+${document.getText(selection)}
+\`\`\`
+
+Code after the selection:
+\`\`\`${language}
+${after}
+\`\`\``;
+}
+
+// Takes the first fenced block when the model wraps its answer, otherwise the whole reply
+export function extractCodeBlock(response: string): string {
+    const fenced = response.match(/```[^\n]*\n([\s\S]*?)```/);
+    return (fenced ? fenced[1] : response).replace(/\n$/, '');
+}
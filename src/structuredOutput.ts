@@ -0,0 +1,83 @@
+import * as vscode from 'vscode';
+import { JsonSchema, salvageJson, validateJson } from './jsonSchema';
+import { ChatMessage, LLMProvider } from './providers';
+
+export interface StructuredResult<T> {
+    value: T;
+    // Schema violations left in the final reply; empty when it was valid
+    errors: string[];
+    // True when invalid parts of the reply were dropped or replaced with empty values
+    partial: boolean;
+}
+
+// Thrown when no reply could be read as JSON at all
+export class StructuredOutputError extends Error {
+    constructor(message: string, readonly response: string) {
+        super(message);
+        this.name = 'StructuredOutputError';
+    }
+}
+
+// Parses a reply that should be JSON, tolerating markdown fences and text around the object
+export function parseJsonReply(response: string): unknown {
+    const text = response.trim();
+    try {
+        return JSON.parse(text);
+    } catch (error) {
+        const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)```/);
+        const start = text.indexOf('{');
+        const end = text.lastIndexOf('}');
+        const candidate = fenced ? fenced[1] : start >= 0 && end > start ? text.slice(start, end + 1) : undefined;
+        if (candidate === undefined) {
+            throw error;
+        }
+        return JSON.parse(candidate);
+    }
+}
+
+function buildRepairPrompt(errors: string[]): string {
+    const listed = errors.slice(0, 20).map(error => `- ${error}`).join('\n');
+    const more = errors.length > 20 ? `\n- ... and ${errors.length - 20} more` : '';
+    return `Your previous reply does not match the required JSON schema:
+${listed}${more}
+
+Reply again with the complete corrected JSON object only, following the schema exactly.`;
+}
+
+/**
+ * Asks for a JSON reply matching `schema`, using the provider's JSON mode, and validates it.
+ * Schema violations are sent back for up to `codeAssistant.analysis.maxRepairAttempts` repairs;
+ * after that the usable part of the last reply is returned (see salvageJson).
+ */
+export async function generateStructured<T>(provider: LLMProvider, messages: ChatMessage[], schema: JsonSchema, signal?: AbortSignal): Promise<StructuredResult<T>> {
+    const maxRepairs = vscode.workspace.getConfiguration('codeAssistant').get<number>('analysis.maxRepairAttempts', 1);
+    let conversation = messages;
+    let lastParsed: { value: unknown; errors: string[] } | undefined;
+    let lastResponse = '';
+    let lastError = '';
+
+    for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+        lastResponse = (await provider.generateResponse(conversation, undefined, { responseSchema: schema, signal })).text;
+        let errors: string[];
+        try {
+            const value = parseJsonReply(lastResponse);
+            errors = validateJson(value, schema);
+            if (errors.length === 0) {
+                return { value: value as T, errors, partial: false };
+            }
+            lastParsed = { value, errors };
+        } catch (error) {
+            lastError = `The reply is not valid JSON: ${(error as Error).message}`;
+            errors = [lastError];
+        }
+
+        // Only the latest reply is kept, so every repair request stays the same size
+        conversation = [...messages, { role: 'assistant', content: lastResponse }, { role: 'user', content: buildRepairPrompt(errors) }];
+    }
+
+    const salvaged = lastParsed && salvageJson(lastParsed.value, schema);
+    if (!lastParsed || salvaged === undefined) {
+        throw new StructuredOutputError(lastParsed ? 'The reply does not match the expected structure.' : lastError, lastResponse);
+    }
+    return { value: salvaged as T, errors: lastParsed.errors, partial: true };
+}
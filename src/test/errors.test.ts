@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+import { AxiosError, AxiosHeaders, CanceledError } from 'axios';
+import OpenAI from 'openai';
+import { LLMError, parseRetryAfter, toLLMError, withRetry } from '../errors';
+
+function httpError(status: number, message: string, headers: Record<string, string> = {}) {
+    const config = { headers: new AxiosHeaders() };
+    return new AxiosError(message, 'ERR_BAD_RESPONSE', config, undefined, {
+        status,
+        statusText: '',
+        data: { error: { message } },
+        headers,
+        config
+    });
+}
+
+// Counts the attempts of a request that fails with `error` every time
+async function attemptsUntilGivingUp(error: unknown): Promise<{ attempts: number; thrown: unknown }> {
+    let attempts = 0;
+    try {
+        await withRetry('groq', async () => {
+            attempts++;
+            throw error;
+        });
+    } catch (thrown) {
+        return { attempts, thrown };
+    }
+    assert.fail('withRetry should have thrown');
+}
+
+suite('Provider errors', () => {
+    test('Rate limits, timeouts and server errors are retryable; auth, quota and model errors are not', () => {
+        const kinds = [
+            [httpError(429, 'Too many requests'), 'rateLimit', true],
+            [httpError(503, 'Service unavailable'), 'server', true],
+            [new AxiosError('timeout of 60000ms exceeded', 'ECONNABORTED'), 'timeout', true],
+            [new AxiosError('connect ECONNREFUSED', 'ECONNREFUSED'), 'network', true],
+            [httpError(401, 'Invalid API key'), 'auth', false],
+            [httpError(429, 'You exceeded your current quota'), 'quota', false],
+            [httpError(404, 'The model `llama-9` does not exist'), 'invalidModel', false],
+            [new Error('[GoogleGenerativeAI Error]: Error fetching from https://example.com: [500 Internal Server Error]'), 'server', true]
+        ] as const;
+        for (const [error, kind, retryable] of kinds) {
+            const llmError = toLLMError(error, 'groq');
+            assert.strictEqual(llmError.kind, kind, error.message);
+            assert.strictEqual(llmError.retryable, retryable, error.message);
+        }
+    });
+
+    test('A cancelled request is not reported as a timeout', () => {
+        const cancellations = [new CanceledError(), new OpenAI.APIUserAbortError(), Object.assign(new Error('This operation was aborted'), { name: 'AbortError' })];
+        for (const error of cancellations) {
+            const llmError = toLLMError(error, 'groq');
+            assert.strictEqual(llmError.kind, 'cancelled', error.message);
+            assert.strictEqual(llmError.retryable, false);
+        }
+        assert.strictEqual(toLLMError(new Error('Request timed out.'), 'gpt').kind, 'timeout');
+    });
+
+    test('A request stopped through its signal fails as cancelled without retrying', async () => {
+        const controller = new AbortController();
+        let attempts = 0;
+        await assert.rejects(withRetry('gemini', async () => {
+            attempts++;
+            controller.abort();
+            throw new Error('[GoogleGenerativeAI Error]: Request aborted when fetching https://example.com: This operation was aborted');
+        }, controller.signal), (error: unknown) => error instanceof LLMError && error.kind === 'cancelled');
+        assert.strictEqual(attempts, 1);
+    });
+
+    test('Retry-After is read as seconds or as an HTTP date', () => {
+        assert.strictEqual(parseRetryAfter('7'), 7000);
+        assert.strictEqual(parseRetryAfter('0.5'), 500);
+        const fromDate = parseRetryAfter(new Date(Date.now() + 10000).toUTCString())!;
+        assert.ok(fromDate > 8000 && fromDate <= 10000, String(fromDate));
+        assert.strictEqual(parseRetryAfter(new Date(Date.now() - 10000).toUTCString()), 0);
+        assert.strictEqual(parseRetryAfter('soon'), undefined);
+        assert.strictEqual(parseRetryAfter(undefined), undefined);
+        assert.strictEqual(toLLMError(httpError(429, 'Slow down', { 'retry-after': '3' }), 'groq').retryAfterMs, 3000);
+    });
+
+    test('Retryable failures are retried up to codeAssistant.maxRetries times', async () => {
+        // Retry-After: 0 skips the backoff delay
+        const { attempts, thrown } = await attemptsUntilGivingUp(httpError(503, 'Overloaded', { 'retry-after': '0' }));
+        assert.strictEqual(attempts, 3);
+        assert.ok(thrown instanceof LLMError && thrown.kind === 'server');
+    });
+
+    test('Fatal failures and over-long Retry-After waits are not retried', async () => {
+        assert.strictEqual((await attemptsUntilGivingUp(httpError(401, 'Invalid API key'))).attempts, 1);
+        assert.strictEqual((await attemptsUntilGivingUp(httpError(429, 'Slow down', { 'retry-after': '3600' }))).attempts, 1);
+    });
+
+    test('A request that succeeds after a retryable failure returns its result', async () => {
+        let attempts = 0;
+        const result = await withRetry('groq', async () => {
+            if (++attempts === 1) {
+                throw new LLMError('rateLimit', 'groq', 'Too many requests', 429, 0);
+            }
+            return 'reply';
+        });
+        assert.strictEqual(result, 'reply');
+        assert.strictEqual(attempts, 2);
+    });
+});
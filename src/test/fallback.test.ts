@@ -0,0 +1,161 @@
+import * as assert from 'assert';
+import { LLMError } from '../errors';
+import { FallbackProvider } from '../fallback';
+import { ChatMessage, LLMFactory, LLMProvider, LLMResponse, StreamingLLMProvider } from '../providers';
+import { TokenUsage } from '../usage';
+
+const USAGE: TokenUsage = { promptTokens: 10, completionTokens: 5 };
+const MESSAGES: ChatMessage[] = [{ role: 'user', content: 'Hello' }];
+
+// Replies with `chunks`, or fails with `error` (streams after `failAfter` chunks), and counts its requests
+class FakeProvider implements StreamingLLMProvider {
+    requests = 0;
+    failAfter = 0;
+
+    constructor(name: string, public error?: LLMError, private readonly chunks = [`${name} reply`]) {}
+
+    async generateResponse(): Promise<LLMResponse> {
+        this.requests++;
+        if (this.error) {
+            throw this.error;
+        }
+        return { text: this.chunks.join(''), usage: USAGE };
+    }
+
+    async *streamResponse(): AsyncGenerator<string, TokenUsage | undefined> {
+        this.requests++;
+        for (const [index, chunk] of this.chunks.entries()) {
+            if (this.error && index >= this.failAfter) {
+                throw this.error;
+            }
+            yield chunk;
+        }
+        return USAGE;
+    }
+}
+
+function rateLimited(provider: string) {
+    return new LLMError('rateLimit', provider, 'Too many requests', 429);
+}
+
+async function readStream(stream: AsyncGenerator<string, TokenUsage | undefined>): Promise<string> {
+    let text = '';
+    for await (const chunk of stream) {
+        text += chunk;
+    }
+    return text;
+}
+
+suite('Provider fallback', () => {
+    // Provider health is kept across requests, so every test uses providers of its own
+    const providers = new Map<string, FakeProvider>();
+    const getProvider = LLMFactory.getProvider;
+
+    function fake(name: string, error?: LLMError, chunks?: string[]): FakeProvider {
+        const provider = new FakeProvider(name, error, chunks);
+        providers.set(name, provider);
+        return provider;
+    }
+
+    setup(() => {
+        LLMFactory.getProvider = (type: string): LLMProvider => providers.get(type) ?? assert.fail(`unexpected provider ${type}`);
+    });
+
+    teardown(() => {
+        LLMFactory.getProvider = getProvider;
+        providers.clear();
+    });
+
+    test('Retryable errors move on along the chain in order', async () => {
+        const first = fake('a1', rateLimited('a1'));
+        const second = fake('a2', new LLMError('server', 'a2', 'Bad gateway', 502));
+        const third = fake('a3');
+        const provider = FallbackProvider.create('a1', ['a2', 'a1', 'a3']);
+
+        const response = await provider.generateResponse(MESSAGES);
+        assert.strictEqual(response.text, 'a3 reply');
+        assert.deepStrictEqual([first.requests, second.requests, third.requests], [1, 1, 1]);
+        assert.strictEqual(provider.failedOver, true);
+        assert.strictEqual(provider.answeredBy?.provider, 'a3');
+        assert.deepStrictEqual(provider.answeredBy?.passedOver, ['a1: Rate limit reached', 'a2: Provider server error']);
+        assert.deepStrictEqual(provider.answeredBy?.usage, USAGE);
+    });
+
+    test('Errors another provider would not fix end the request', async () => {
+        fake('b1', new LLMError('auth', 'b1', 'Invalid API key', 401));
+        const second = fake('b2');
+        await assert.rejects(FallbackProvider.create('b1', ['b2']).generateResponse(MESSAGES), (error: unknown) => error instanceof LLMError && error.kind === 'auth');
+        assert.strictEqual(second.requests, 0);
+    });
+
+    test('A fallback that fails for any reason is passed over', async () => {
+        fake('h1', rateLimited('h1'));
+        fake('h2', new LLMError('auth', 'h2', 'Invalid API key', 401));
+        fake('h3');
+        const provider = FallbackProvider.create('h1', ['h2', 'h3']);
+        assert.strictEqual((await provider.generateResponse(MESSAGES)).text, 'h3 reply');
+        assert.deepStrictEqual(provider.answeredBy?.passedOver, ['h1: Rate limit reached', 'h2: Authentication failed']);
+
+        fake('i1', rateLimited('i1'));
+        fake('i2', new LLMError('cancelled', 'i2', 'The request was cancelled.'));
+        const third = fake('i3');
+        await assert.rejects(FallbackProvider.create('i1', ['i2', 'i3']).generateResponse(MESSAGES), (error: unknown) => error instanceof LLMError && error.kind === 'cancelled');
+        assert.strictEqual(third.requests, 0);
+    });
+
+    test('The last error is thrown when every provider fails', async () => {
+        fake('c1', rateLimited('c1'));
+        fake('c2', new LLMError('timeout', 'c2', 'Request timed out'));
+        await assert.rejects(FallbackProvider.create('c1', ['c2']).generateResponse(MESSAGES), (error: unknown) => error instanceof LLMError && error.provider === 'c2');
+    });
+
+    test('A provider that keeps failing cools down and is skipped', async () => {
+        const failing = fake('d1', rateLimited('d1'));
+        fake('d2');
+        const provider = FallbackProvider.create('d1', ['d2']);
+        // The default failure threshold is 2
+        await provider.generateResponse(MESSAGES);
+        await provider.generateResponse(MESSAGES);
+        assert.strictEqual(failing.requests, 2);
+
+        await provider.generateResponse(MESSAGES);
+        assert.strictEqual(failing.requests, 2);
+        assert.deepStrictEqual(provider.answeredBy?.passedOver, ['d1: cooling down after repeated failures']);
+
+        // With nothing else left to try, a cooling provider is still asked
+        failing.error = undefined;
+        assert.strictEqual((await FallbackProvider.create('d1', []).generateResponse(MESSAGES)).text, 'd1 reply');
+    });
+
+    test('Each request reports only the provider that answered it', async () => {
+        const first = fake('e1', rateLimited('e1'));
+        fake('e2');
+        const provider = FallbackProvider.create('e1', ['e2']);
+        await provider.generateResponse(MESSAGES);
+        assert.strictEqual(provider.answeredBy?.provider, 'e2');
+
+        first.error = undefined;
+        await provider.generateResponse(MESSAGES);
+        assert.strictEqual(provider.answeredBy?.provider, 'e1');
+        assert.strictEqual(provider.failedOver, false);
+
+        first.error = new LLMError('quota', 'e1', 'Quota exceeded', 402);
+        await assert.rejects(provider.generateResponse(MESSAGES));
+        assert.strictEqual(provider.answeredBy, undefined);
+    });
+
+    test('A stream fails over only until its first chunk', async () => {
+        fake('f1', rateLimited('f1'));
+        fake('f2', undefined, ['Hello', ' world']);
+        const provider = FallbackProvider.create('f1', ['f2']);
+        assert.strictEqual(await readStream(provider.streamResponse(MESSAGES)), 'Hello world');
+        assert.strictEqual(provider.answeredBy?.provider, 'f2');
+        assert.deepStrictEqual(provider.answeredBy?.usage, USAGE);
+
+        const broken = fake('g1', rateLimited('g1'), ['Hello', ' world']);
+        broken.failAfter = 1;
+        const next = fake('g2');
+        await assert.rejects(readStream(FallbackProvider.create('g1', ['g2']).streamResponse(MESSAGES)), (error: unknown) => error instanceof LLMError && error.provider === 'g1');
+        assert.strictEqual(next.requests, 0);
+    });
+});
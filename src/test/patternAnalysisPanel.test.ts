@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import { getPatternAnalysisWebviewContent } from '../patternAnalysisPanel';
+import { FakeElement, fakeWebview, runWebviewScript } from './webviewHarness';
+
+// Payloads a model might echo back when it analyzes HTML or JavaScript
+const HOSTILE_PAYLOADS = [
+    '<script>acquireVsCodeApi().postMessage({ command: "export", format: "json" })</script>',
+    '<img src=x onerror="alert(1)">',
+    '"><svg onload=alert(1)>',
+    '</code><iframe src="javascript:alert(1)"></iframe>',
+    '<style>body { display: none }</style>',
+    '${document.title}'
+];
+
+// Everything the page itself creates to lay out an analysis
+const LAYOUT_TAGS = new Set(['div', 'h2', 'h3', 'p', 'em', 'strong', 'span', 'ul', 'li', 'code', 'details', 'summary', 'pre']);
+
+function hostileAnalysis(payload: string) {
+    return {
+        patterns: [{ name: payload, description: payload, location: payload, confidence: '1; background: url(//evil)', impact: payload }],
+        antiPatterns: [{ issue: payload, impact: payload, solution: payload, severity: 'high" onmouseover="alert(1)', startLine: payload, endLine: 2 }],
+        recommendations: [{ title: payload, details: payload, example: payload, complexity: payload, performance_impact: payload, startLine: 1, endLine: 1 }],
+        performance_metrics: { time_complexity: payload, space_complexity: payload, potential_bottlenecks: [payload] }
+    };
+}
+
+function openPage() {
+    return runWebviewScript(getPatternAnalysisWebviewContent(fakeWebview), ['heading', 'run-info', 'export-bar', 'content']);
+}
+
+function contentOf(page: ReturnType<typeof openPage>): FakeElement {
+    const content = page.elements.get('content');
+    assert.ok(content);
+    return content;
+}
+
+suite('Pattern analysis webview', () => {
+    test('renders only after the analysis is posted to it', () => {
+        const page = openPage();
+        assert.deepStrictEqual(page.posted, [{ command: 'ready' }]);
+        assert.strictEqual(contentOf(page).children.length, 0);
+    });
+
+    for (const payload of HOSTILE_PAYLOADS) {
+        test(`shows ${JSON.stringify(payload)} as text`, () => {
+            const page = openPage();
+            page.receive({
+                command: 'renderAnalysis',
+                analysis: hostileAnalysis(payload),
+                errors: [payload],
+                partial: true,
+                run: { provider: payload, model: payload, timestamp: '2024-01-01T00:00:00.000Z' }
+            });
+
+            const elements = contentOf(page).descendants();
+            assert.ok(elements.length > 0);
+            for (const element of elements) {
+                assert.ok(LAYOUT_TAGS.has(element.tagName), `<${element.tagName}> was created`);
+                assert.ok(/^[a-z -]*$/.test(element.className), `class "${element.className}"`);
+            }
+            // Every model-provided field and the validation error are shown verbatim
+            const shown = elements.filter(element => element.children.length === 0 && element.textContent.includes(payload));
+            assert.strictEqual(shown.length, 17);
+            assert.ok(page.elements.get('run-info')?.textContent.startsWith(`${payload} · ${payload} · `));
+            assert.deepStrictEqual(page.posted, [{ command: 'ready' }]);
+        });
+    }
+
+    test('keeps model values out of class names and styles', () => {
+        const page = openPage();
+        page.receive({
+            command: 'renderAnalysis',
+            analysis: hostileAnalysis('x'),
+            errors: [],
+            partial: false,
+            run: { provider: 'Groq', model: 'test', timestamp: '2024-01-01T00:00:00.000Z' }
+        });
+        const elements = contentOf(page).descendants();
+        assert.ok(elements.some(element => element.className === 'antipattern severity-medium'));
+        const bar = elements.find(element => element.className === 'confidence-bar');
+        assert.strictEqual(bar?.style.width, '0%');
+    });
+
+    test('shows an unreadable reply as text', () => {
+        const page = openPage();
+        page.receive({ command: 'renderError', message: HOSTILE_PAYLOADS[0], response: HOSTILE_PAYLOADS[1] });
+        const elements = contentOf(page).descendants();
+        assert.ok(elements.every(element => LAYOUT_TAGS.has(element.tagName)));
+        assert.strictEqual(elements.find(element => element.tagName === 'pre')?.textContent, HOSTILE_PAYLOADS[1]);
+        assert.ok(contentOf(page).textContent.includes(HOSTILE_PAYLOADS[0]));
+        assert.strictEqual(page.elements.get('export-bar')?.hidden, true);
+    });
+});
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { toJson, toMarkdown, toSarif } from '../patternExport';
+import { createReport, PatternFinding } from '../patternReport';
+
+function reportWith(finding: Partial<PatternFinding>) {
+    const report = createReport('test', 'groq');
+    report.findings.push({
+        kind: 'recommendation',
+        uri: vscode.Uri.file('/workspace/app.ts'),
+        range: new vscode.Range(1, 0, 2, 4),
+        code: 'const timeout = 3000;',
+        title: 'title',
+        detail: 'detail',
+        ...finding
+    });
+    report.filesAnalyzed = 1;
+    return report;
+}
+
+suite('Pattern report export', () => {
+    test('Markdown keeps model HTML from being rendered', () => {
+        const markdown = toMarkdown(reportWith({ title: '<script>alert(1)</script>', detail: '<img src=x onerror=alert(1)>' }));
+        assert.ok(!markdown.includes('<script'));
+        assert.ok(!markdown.includes('<img'));
+        assert.ok(markdown.includes('&lt;script>alert(1)&lt;/script>'));
+    });
+
+    test('Markdown example code cannot close its fence', () => {
+        const example = 'const a = ```\n# injected heading\n```';
+        const markdown = toMarkdown(reportWith({ example }));
+        const fence = markdown.match(/^ *(`{3,})ts$/m)?.[1];
+        assert.strictEqual(fence, '````');
+        assert.ok(markdown.includes(`  # injected heading\n  \`\`\`\n  ${fence}`));
+    });
+
+    test('SARIF carries model text as JSON strings', () => {
+        const title = '"}]}, "injected": {"a": "';
+        const sarif = JSON.parse(toSarif(reportWith({ title, example: 'fixed()' }), '1.0.0'));
+        const [result] = sarif.runs[0].results;
+        assert.strictEqual(sarif.version, '2.1.0');
+        assert.ok(result.message.text.startsWith(title));
+        assert.strictEqual(sarif.injected, undefined);
+        assert.strictEqual(result.fixes[0].artifactChanges[0].replacements[0].insertedContent.text, 'fixed()');
+    });
+
+    test('SARIF fingerprints follow the flagged code, not its lines or the wording', () => {
+        const fingerprintOf = (finding: Partial<PatternFinding>) =>
+            JSON.parse(toSarif(reportWith(finding), '1.0.0')).runs[0].results[0].partialFingerprints['patternFinding/v1'];
+        const first = fingerprintOf({ title: 'Magic number', detail: 'The timeout 3000 is unexplained.' });
+        assert.strictEqual(first, fingerprintOf({ title: 'Unexplained constant', detail: 'Name the 3000 ms timeout.' }));
+        assert.strictEqual(first, fingerprintOf({ title: 'Magic number', range: new vscode.Range(40, 0, 41, 4), code: 'const timeout =\n    3000;' }));
+        assert.notStrictEqual(first, fingerprintOf({ title: 'Magic number', code: 'const retries = 5;' }));
+        assert.notStrictEqual(first, fingerprintOf({ kind: 'antiPattern', title: 'Magic number' }));
+    });
+
+    test('Exports name the providers that answered', () => {
+        const report = reportWith({});
+        assert.ok(toMarkdown(report).includes('_Groq · llama-3.1-8b-instant · '));
+
+        report.answeredBy.push({ provider: 'groq', model: 'llama-3.1-8b-instant' }, { provider: 'gemini', model: 'gemini-1.5-flash' });
+        assert.ok(toMarkdown(report).includes('_Groq, Gemini · llama-3.1-8b-instant, gemini-1.5-flash · '));
+        assert.deepStrictEqual(JSON.parse(toJson(report)).answeredBy, report.answeredBy);
+        assert.deepStrictEqual(JSON.parse(toSarif(report, '1.0.0')).runs[0].properties.answeredBy, report.answeredBy);
+    });
+});
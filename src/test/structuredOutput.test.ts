@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import { JsonSchema, salvageJson, validateJson } from '../jsonSchema';
+import { ChatMessage, LLMProvider, LLMResponse } from '../providers';
+import { generateStructured, parseJsonReply, StructuredOutputError } from '../structuredOutput';
+
+const FINDINGS_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: {
+        findings: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    issue: { type: 'string' },
+                    severity: { type: 'string', enum: ['high', 'medium', 'low'] },
+                    startLine: { type: 'integer', minimum: 1 }
+                },
+                required: ['issue', 'severity']
+            }
+        },
+        summary: { type: 'string' }
+    },
+    required: ['findings', 'summary']
+};
+
+// Answers with `replies` in turn and remembers what it was asked
+class ScriptedProvider implements LLMProvider {
+    readonly requests: ChatMessage[][] = [];
+
+    constructor(private readonly replies: string[]) {}
+
+    async generateResponse(messages: ChatMessage[]): Promise<LLMResponse> {
+        this.requests.push(messages);
+        return { text: this.replies.shift() ?? '', usage: { promptTokens: 0, completionTokens: 0 } };
+    }
+}
+
+suite('Structured output', () => {
+    test('Missing required fields, wrong types and unknown enum values are reported by path', () => {
+        const errors = validateJson({
+            findings: [
+                { issue: 'Long method', severity: 'high', startLine: 3 },
+                { severity: 'critical', startLine: '7' },
+                { issue: 42, severity: 'low', startLine: 2.5 }
+            ]
+        }, FINDINGS_SCHEMA);
+        assert.deepStrictEqual(errors, [
+            '$.summary is required',
+            '$.findings[1].issue is required',
+            '$.findings[1].severity must be one of "high", "medium", "low", got "critical"',
+            '$.findings[1].startLine must be a number, got a string',
+            '$.findings[2].issue must be a string, got a number',
+            '$.findings[2].startLine must be an integer, got 2.5'
+        ]);
+        assert.deepStrictEqual(validateJson({ findings: [], summary: 'ok' }, FINDINGS_SCHEMA), []);
+        assert.deepStrictEqual(validateJson([], FINDINGS_SCHEMA), ['$ must be an object, got an array']);
+    });
+
+    test('Salvaging keeps valid array items, fixes obvious slips and drops broken items', () => {
+        const salvaged = salvageJson({
+            findings: [
+                { issue: 'Long method', severity: 'high' },
+                { issue: 'Magic number', severity: 'Medium', startLine: '12' },
+                { issue: 'Unknown severity', severity: 'critical' },
+                { severity: 'low' },
+                'not an object'
+            ],
+            summary: 'Two findings'
+        }, FINDINGS_SCHEMA);
+        assert.deepStrictEqual(salvaged, {
+            findings: [
+                { issue: 'Long method', severity: 'high' },
+                { issue: 'Magic number', severity: 'medium', startLine: 12 }
+            ],
+            summary: 'Two findings'
+        });
+    });
+
+    test('Salvaging replaces broken required containers but gives up on missing required values', () => {
+        assert.deepStrictEqual(salvageJson({ findings: 'none', summary: 'Nothing found' }, FINDINGS_SCHEMA), { findings: [], summary: 'Nothing found' });
+        assert.strictEqual(salvageJson({ findings: [] }, FINDINGS_SCHEMA), undefined);
+        assert.strictEqual(salvageJson('text', FINDINGS_SCHEMA), undefined);
+    });
+
+    test('Replies wrapped in markdown or prose are still read as JSON', () => {
+        assert.deepStrictEqual(parseJsonReply('```json\n{"summary": "ok"}\n```'), { summary: 'ok' });
+        assert.deepStrictEqual(parseJsonReply('Here is the analysis: {"summary": "ok"} Hope it helps!'), { summary: 'ok' });
+        assert.throws(() => parseJsonReply('No JSON here'));
+    });
+
+    test('An invalid reply is sent back for repair before it is salvaged', async () => {
+        const provider = new ScriptedProvider([
+            '{"findings": [{"issue": "Long method", "severity": "severe"}], "summary": "One finding"}',
+            '{"findings": [{"issue": "Long method", "severity": "high"}], "summary": "One finding"}'
+        ]);
+        const result = await generateStructured(provider, [{ role: 'user', content: 'Analyze' }], FINDINGS_SCHEMA);
+        assert.strictEqual(result.partial, false);
+        assert.deepStrictEqual(result.value, { findings: [{ issue: 'Long method', severity: 'high' }], summary: 'One finding' });
+        assert.strictEqual(provider.requests.length, 2);
+        assert.ok(provider.requests[1].at(-1)!.content.includes('$.findings[0].severity must be one of'));
+    });
+
+    test('A reply that stays invalid comes back partial, and one that is not JSON fails', async () => {
+        const partial = await generateStructured(new ScriptedProvider([
+            '{"findings": [{"issue": "Kept", "severity": "low"}, {"issue": "Dropped"}], "summary": "s"}',
+            '{"findings": [{"issue": "Kept", "severity": "low"}, {"issue": "Dropped"}], "summary": "s"}'
+        ]), [{ role: 'user', content: 'Analyze' }], FINDINGS_SCHEMA);
+        assert.strictEqual(partial.partial, true);
+        assert.deepStrictEqual(partial.value, { findings: [{ issue: 'Kept', severity: 'low' }], summary: 's' });
+        assert.deepStrictEqual(partial.errors, ['$.findings[1].severity is required']);
+
+        await assert.rejects(
+            generateStructured(new ScriptedProvider(['Sorry, I cannot help.', 'Still no JSON.']), [{ role: 'user', content: 'Analyze' }], FINDINGS_SCHEMA),
+            StructuredOutputError
+        );
+    });
+});
@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { estimateCost, sumUsage, UsageStore } from '../usage';
+
+// Global state kept in memory
+class FakeMemento implements vscode.Memento {
+    private readonly values = new Map<string, unknown>();
+
+    keys(): readonly string[] {
+        return [...this.values.keys()];
+    }
+
+    get<T>(key: string, defaultValue?: T): T | undefined {
+        return this.values.has(key) ? this.values.get(key) as T : defaultValue;
+    }
+
+    async update(key: string, value: unknown): Promise<void> {
+        if (value === undefined) {
+            this.values.delete(key);
+        } else {
+            this.values.set(key, value);
+        }
+    }
+}
+
+const MILLION = { promptTokens: 1_000_000, completionTokens: 1_000_000 };
+
+function setUsageSetting(key: string, value: unknown): Thenable<void> {
+    return vscode.workspace.getConfiguration('codeAssistant.usage').update(key, value, vscode.ConfigurationTarget.Global);
+}
+
+suite('Token usage', () => {
+    let state: FakeMemento;
+
+    setup(() => {
+        state = new FakeMemento();
+        UsageStore.initialize(state);
+    });
+
+    teardown(async () => {
+        await setUsageSetting('prices', undefined);
+        await setUsageSetting('dailyBudget', undefined);
+        await setUsageSetting('monthlyBudget', undefined);
+    });
+
+    test('Costs come from the price table, which settings override and extend', async () => {
+        assert.strictEqual(estimateCost('gpt', 'gpt-4o-mini', MILLION), 0.75);
+        assert.strictEqual(estimateCost('ollama', 'llama3.1', MILLION), 0);
+        assert.strictEqual(estimateCost('gpt', 'my-fine-tune', MILLION), undefined);
+
+        await setUsageSetting('prices', { 'gpt-4o-mini': { input: 1, output: 2 }, 'my-fine-tune': { input: 3, output: 4 } });
+        assert.strictEqual(estimateCost('gpt', 'gpt-4o-mini', MILLION), 3);
+        assert.strictEqual(estimateCost('gpt', 'my-fine-tune', MILLION), 7);
+    });
+
+    test('Requests are totalled per provider and model for today and this month', async () => {
+        // A day of an earlier year counts for neither
+        const lastYear = new Date();
+        lastYear.setFullYear(lastYear.getFullYear() - 1);
+        const earlierDay = lastYear.toISOString().slice(0, 10);
+        await state.update('codeAssistant.usage', {
+            days: { [earlierDay]: { 'groq/llama-3.1-8b-instant': { provider: 'groq', model: 'llama-3.1-8b-instant', requests: 9, promptTokens: 9, completionTokens: 9, cost: 9, unpriced: 0 } } },
+            recent: [],
+            warned: {}
+        });
+
+        await UsageStore.record('gpt', 'gpt-4o-mini', { promptTokens: 1000, completionTokens: 500 });
+        await UsageStore.record('gpt', 'gpt-4o-mini', { promptTokens: 2000, completionTokens: 100 });
+        await UsageStore.record('gpt', 'my-fine-tune', { promptTokens: 10, completionTokens: 10, estimated: true });
+
+        const summary = UsageStore.summary();
+        assert.deepStrictEqual(summary.today, summary.month);
+        assert.deepStrictEqual(summary.today.map(row => [row.model, row.requests, row.promptTokens, row.completionTokens, row.unpriced]), [
+            ['gpt-4o-mini', 2, 3000, 600, 0],
+            ['my-fine-tune', 1, 10, 10, 1]
+        ]);
+        assert.ok(Math.abs(sumUsage(summary.today).cost - (3000 * 0.15 + 600 * 0.6) / 1_000_000) < 1e-12);
+        assert.deepStrictEqual(summary.recent.map(record => [record.model, record.cost === undefined, record.usage.estimated]), [
+            ['my-fine-tune', true, true],
+            ['gpt-4o-mini', false, undefined],
+            ['gpt-4o-mini', false, undefined]
+        ]);
+
+        await UsageStore.reset();
+        assert.deepStrictEqual(UsageStore.summary().today, []);
+    });
+
+    test('A budget warning is shown once per period', async () => {
+        await setUsageSetting('dailyBudget', 1);
+        await setUsageSetting('monthlyBudget', 5);
+
+        assert.deepStrictEqual(await UsageStore.record('gpt', 'gpt-4o', { promptTokens: 100_000, completionTokens: 10_000 }), []);
+        const [daily, ...others] = await UsageStore.record('gpt', 'gpt-4o', { promptTokens: 300_000, completionTokens: 10_000 });
+        assert.match(daily, /over the daily budget of \$1\.00/);
+        assert.deepStrictEqual(others, []);
+        assert.deepStrictEqual(await UsageStore.record('gpt', 'gpt-4o', { promptTokens: 300_000, completionTokens: 0 }), []);
+
+        const warnings = await UsageStore.record('gpt', 'gpt-4o', { promptTokens: 2_000_000, completionTokens: 0 });
+        assert.strictEqual(warnings.length, 1);
+        assert.match(warnings[0], /over the monthly budget of \$5\.00/);
+    });
+});
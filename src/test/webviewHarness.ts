@@ -0,0 +1,118 @@
+import * as vm from 'vm';
+import * as vscode from 'vscode';
+
+// Enough of vscode.Webview to build the pages; resources keep their file URIs
+export const fakeWebview = {
+    cspSource: 'https://file+.vscode-resource.vscode-cdn.net',
+    asWebviewUri: (uri: vscode.Uri) => uri
+} as unknown as vscode.Webview;
+
+// Directives of the page's Content-Security-Policy meta tag, e.g. { 'script-src': ["'nonce-…'"] }
+export function readContentSecurityPolicy(html: string): Map<string, string[]> {
+    const meta = html.match(/<meta http-equiv="Content-Security-Policy" content="([^"]*)">/);
+    if (!meta) {
+        throw new Error('The page has no Content-Security-Policy');
+    }
+    return new Map(meta[1].split(';').map(directive => {
+        const [name, ...sources] = directive.trim().split(/\s+/);
+        return [name, sources];
+    }));
+}
+
+//## Minimal DOM for running a page's inline script outside a browser
+// Only text content can be set; any use of innerHTML fails the test.
+export class FakeElement {
+    readonly children: FakeElement[] = [];
+    readonly dataset: Record<string, string> = {};
+    readonly style: Record<string, string> = {};
+    className = '';
+    hidden = false;
+    private text = '';
+    private readonly listeners = new Map<string, ((event: unknown) => void)[]>();
+
+    constructor(readonly tagName: string, readonly id = '') {}
+
+    get textContent(): string {
+        return this.text + this.children.map(child => child.textContent).join('');
+    }
+
+    set textContent(value: string) {
+        this.text = value;
+        this.children.length = 0;
+    }
+
+    get innerHTML(): string {
+        throw new Error(`innerHTML read on <${this.tagName}>`);
+    }
+
+    set innerHTML(value: string) {
+        throw new Error(`innerHTML set on <${this.tagName}>: ${value}`);
+    }
+
+    appendChild(child: FakeElement): FakeElement {
+        this.children.push(child);
+        return child;
+    }
+
+    replaceChildren(...children: FakeElement[]): void {
+        this.text = '';
+        this.children.splice(0, this.children.length, ...children);
+    }
+
+    addEventListener(type: string, listener: (event: unknown) => void): void {
+        this.listeners.set(type, [...this.listeners.get(type) ?? [], listener]);
+    }
+
+    querySelectorAll(tagName: string): FakeElement[] {
+        return this.children.flatMap(child => [...(child.tagName === tagName ? [child] : []), ...child.querySelectorAll(tagName)]);
+    }
+
+    // Every element below this one, in document order
+    descendants(): FakeElement[] {
+        return this.children.flatMap(child => [child, ...child.descendants()]);
+    }
+}
+
+export interface WebviewScript {
+    elements: Map<string, FakeElement>;
+    // Messages the page sent to the extension
+    posted: unknown[];
+    // Delivers a message from the extension to the page
+    receive(message: unknown): void;
+}
+
+/**
+ * Runs the inline (non-src) scripts of `html` against FakeElements for the given ids,
+ * the way the webview would after loading the page.
+ */
+export function runWebviewScript(html: string, elementIds: string[]): WebviewScript {
+    const scripts = [...html.matchAll(/<script nonce="[^"]+">([\s\S]*?)<\/script>/g)].map(match => match[1]);
+    const elements = new Map(elementIds.map(id => [id, new FakeElement('div', id)]));
+    const posted: unknown[] = [];
+    const messageListeners: ((event: { data: unknown }) => void)[] = [];
+
+    const context = vm.createContext({
+        // Messages are copied on the way out, as postMessage would
+        acquireVsCodeApi: () => ({ postMessage: (message: unknown) => posted.push(JSON.parse(JSON.stringify(message))) }),
+        document: {
+            getElementById: (id: string) => elements.get(id) ?? null,
+            createElement: (tagName: string) => new FakeElement(tagName)
+        },
+        window: {
+            addEventListener: (type: string, listener: (event: { data: unknown }) => void) => {
+                if (type === 'message') {
+                    messageListeners.push(listener);
+                }
+            }
+        }
+    });
+    for (const script of scripts) {
+        vm.runInContext(script, context);
+    }
+
+    return {
+        elements,
+        posted,
+        receive: message => messageListeners.forEach(listener => listener({ data: JSON.parse(JSON.stringify(message)) }))
+    };
+}
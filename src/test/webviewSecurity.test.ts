@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { getDiagramWebviewContent } from '../diagramPanel';
+import { getWebviewContent } from '../extension';
+import { getPatternAnalysisWebviewContent } from '../patternAnalysisPanel';
+import { getUsageWebviewContent } from '../usagePanel';
+import { getContentSecurityPolicy } from '../webview';
+import { fakeWebview, readContentSecurityPolicy } from './webviewHarness';
+
+const extensionUri = vscode.Uri.file('/extension');
+
+// Every page the extension shows in a webview
+const PAGES: Record<string, () => string> = {
+    chat: () => getWebviewContent(fakeWebview, extensionUri),
+    diagram: () => getDiagramWebviewContent(fakeWebview, extensionUri),
+    patternAnalysis: () => getPatternAnalysisWebviewContent(fakeWebview),
+    usage: () => getUsageWebviewContent(fakeWebview)
+};
+
+suite('Webview Content-Security-Policy', () => {
+    test('only nonce-tagged scripts may run', () => {
+        for (const inlineStyles of [false, true]) {
+            const policy = getContentSecurityPolicy(fakeWebview, 'abc123', { inlineStyles });
+            const directives = readContentSecurityPolicy(`<meta http-equiv="Content-Security-Policy" content="${policy}">`);
+            assert.deepStrictEqual(directives.get('default-src'), [`'none'`]);
+            assert.deepStrictEqual(directives.get('script-src'), [`'nonce-abc123'`]);
+            assert.ok(!policy.includes('unsafe-eval'));
+            assert.ok(!/https?:\/\/(?!file\+\.vscode-resource)/.test(policy), 'no network sources');
+        }
+    });
+
+    for (const [name, render] of Object.entries(PAGES)) {
+        test(`${name} page has a strict policy and no untagged scripts`, () => {
+            const html = render();
+            const directives = readContentSecurityPolicy(html);
+            const scriptSources = directives.get('script-src') ?? [];
+            assert.strictEqual(scriptSources.length, 1);
+            const nonce = scriptSources[0].match(/^'nonce-([0-9a-f]{32})'$/)?.[1];
+            assert.ok(nonce, `script-src is ${scriptSources.join(' ')}`);
+
+            const scripts = html.match(/<script\b[^>]*>/g) ?? [];
+            assert.ok(scripts.length > 0);
+            for (const script of scripts) {
+                assert.ok(script.includes(`nonce="${nonce}"`), `${script} has no nonce`);
+                assert.ok(!/src="https?:/.test(script), `${script} loads from the network`);
+            }
+            assert.ok(!/\son[a-z]+\s*=/i.test(html.replace(/<script\b[\s\S]*?<\/script>/g, '')), 'inline event handlers are blocked by the policy');
+            assert.ok(!html.includes('javascript:'));
+        });
+    }
+});
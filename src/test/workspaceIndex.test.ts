@@ -0,0 +1,33 @@
+import * as assert from 'assert';
+import { Bm25Index, tokenize } from '../workspaceIndex';
+
+suite('Workspace index', () => {
+    test('Identifiers are searchable whole and by their parts', () => {
+        assert.deepStrictEqual(tokenize('getProviderName(api_key)'), ['getprovidername', 'get', 'provider', 'name', 'api_key', 'api', 'key']);
+        assert.deepStrictEqual(tokenize('How is the HTTPServer started?'), ['httpserver', 'http', 'server', 'started']);
+    });
+
+    test('Documents are ranked by the rarer terms they share with the query', () => {
+        const index = new Bm25Index<string>();
+        index.set('fallback', tokenize('class FallbackProvider { failOver(error) { health.recordFailure(error); } }'), 'fallback');
+        index.set('usage', tokenize('class UsageStore { record(provider, usage) { estimateCost(provider, usage); } }'), 'usage');
+        index.set('catalog', tokenize('class ModelCatalog { getModels(provider) { return this.fetch(provider); } }'), 'catalog');
+
+        const results = index.search(tokenize('where does the provider record failure?'), 3);
+        assert.deepStrictEqual(results.map(result => result.value), ['fallback', 'usage', 'catalog']);
+        assert.deepStrictEqual(index.search(tokenize('unrelated words'), 3), []);
+    });
+
+    test('Replaced and deleted documents are no longer found', () => {
+        const index = new Bm25Index<string>();
+        index.set('a', tokenize('parseConfig()'), 'old');
+        index.set('a', tokenize('renderView()'), 'new');
+        index.set('b', tokenize('parseConfig()'), 'b');
+        assert.strictEqual(index.size, 2);
+        assert.deepStrictEqual(index.search(tokenize('render view'), 5).map(result => result.value), ['new']);
+
+        index.delete('b');
+        assert.deepStrictEqual(index.search(tokenize('parse config'), 5), []);
+        assert.strictEqual(index.size, 1);
+    });
+});
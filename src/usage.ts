@@ -0,0 +1,225 @@
+import * as vscode from 'vscode';
+import { getProviderName } from './apiKeys';
+
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+    // Counted by the extension (~4 characters per token) because the provider reported nothing
+    estimated?: boolean;
+}
+
+// US dollars per million tokens
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+// List prices at the time of writing; `codeAssistant.usage.prices` overrides and extends them
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+    'llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+    'llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+    'gemma2-9b-it': { input: 0.2, output: 0.2 },
+    'gemini-1.5-pro': { input: 1.25, output: 5 },
+    'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+    'text-embedding-3-small': { input: 0.02, output: 0 }
+};
+
+// Models run locally cost nothing per token
+const FREE_PROVIDERS = ['ollama'];
+
+export function getModelPrice(provider: string, model: string): ModelPrice | undefined {
+    const configured = vscode.workspace.getConfiguration('codeAssistant.usage').get<Record<string, ModelPrice>>('prices', {});
+    const price = configured[model] ?? DEFAULT_PRICES[model];
+    if (price && typeof price.input === 'number' && typeof price.output === 'number') {
+        return price;
+    }
+    return FREE_PROVIDERS.includes(provider) ? { input: 0, output: 0 } : undefined;
+}
+
+// Undefined when the model has no known price
+export function estimateCost(provider: string, model: string, usage: TokenUsage): number | undefined {
+    const price = getModelPrice(provider, model);
+    return price && (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+export function formatCost(cost: number): string {
+    return cost === 0 ? '$0' : cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+// e.g. "1,204 prompt + 310 reply tokens · $0.0004"
+export function describeUsage(provider: string, model: string, usage: TokenUsage): string {
+    const cost = estimateCost(provider, model, usage);
+    const tokens = `${usage.promptTokens.toLocaleString()} prompt + ${usage.completionTokens.toLocaleString()} reply tokens`;
+    return `${usage.estimated ? '~' : ''}${tokens}${cost === undefined ? '' : ` · ${formatCost(cost)}`}`;
+}
+
+//## Recorded usage
+export interface UsageTotals {
+    requests: number;
+    promptTokens: number;
+    completionTokens: number;
+    cost: number;
+    // Requests of models without a known price; their cost is not included
+    unpriced: number;
+}
+
+export interface UsageRow extends UsageTotals {
+    provider: string;
+    model: string;
+}
+
+export interface UsageRecord {
+    timestamp: number;
+    provider: string;
+    model: string;
+    usage: TokenUsage;
+    cost?: number;
+}
+
+interface UsageData {
+    // Per local day ("2024-05-31"), keyed by "provider/model"
+    days: Record<string, Record<string, UsageRow>>;
+    recent: UsageRecord[];
+    // Period ("2024-05-31" or "2024-05") in which each budget warning was last shown
+    warned: { daily?: string; monthly?: string };
+}
+
+export interface UsageSummary {
+    today: UsageRow[];
+    month: UsageRow[];
+    recent: UsageRecord[];
+    dailyBudget: number;
+    monthlyBudget: number;
+}
+
+const KEPT_DAYS = 400;
+const KEPT_REQUESTS = 100;
+
+function dayKey(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function getBudgets() {
+    const config = vscode.workspace.getConfiguration('codeAssistant.usage');
+    return {
+        dailyBudget: Math.max(0, config.get<number>('dailyBudget', 0)),
+        monthlyBudget: Math.max(0, config.get<number>('monthlyBudget', 0))
+    };
+}
+
+export function sumUsage(rows: UsageTotals[]): UsageTotals {
+    return rows.reduce((total, row) => ({
+        requests: total.requests + row.requests,
+        promptTokens: total.promptTokens + row.promptTokens,
+        completionTokens: total.completionTokens + row.completionTokens,
+        cost: total.cost + row.cost,
+        unpriced: total.unpriced + row.unpriced
+    }), { requests: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpriced: 0 });
+}
+
+// Token counts and estimated costs of every request, kept in the extension's global state
+export class UsageStore {
+    private static readonly storageKey = 'codeAssistant.usage';
+    private static state: vscode.Memento | undefined;
+    private static readonly changed = new vscode.EventEmitter<void>();
+    static readonly onDidChange = UsageStore.changed.event;
+
+    static initialize(state: vscode.Memento): void {
+        UsageStore.state = state;
+    }
+
+    // Called by the providers once a request has finished; returns the budget warnings it showed
+    static async record(provider: string, model: string, usage: TokenUsage): Promise<string[]> {
+        if (!UsageStore.state) {
+            return [];
+        }
+        const data = UsageStore.read();
+        const today = dayKey(new Date());
+        const cost = estimateCost(provider, model, usage);
+        const key = `${provider}/${model}`;
+        const day = data.days[today] ?? {};
+        const row = day[key] ?? { provider, model, requests: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpriced: 0 };
+        day[key] = {
+            ...row,
+            requests: row.requests + 1,
+            promptTokens: row.promptTokens + usage.promptTokens,
+            completionTokens: row.completionTokens + usage.completionTokens,
+            cost: row.cost + (cost ?? 0),
+            unpriced: row.unpriced + (cost === undefined ? 1 : 0)
+        };
+        data.days[today] = day;
+        data.days = Object.fromEntries(Object.entries(data.days).sort(([a], [b]) => a.localeCompare(b)).slice(-KEPT_DAYS));
+        data.recent = [{ timestamp: Date.now(), provider, model, usage, cost }, ...data.recent].slice(0, KEPT_REQUESTS);
+
+        const warnings = UsageStore.checkBudgets(data, today);
+        await UsageStore.state.update(UsageStore.storageKey, data);
+        UsageStore.changed.fire();
+        for (const warning of warnings) {
+            vscode.window.showWarningMessage(warning, 'Show Usage').then(choice => {
+                if (choice === 'Show Usage') {
+                    vscode.commands.executeCommand('codesuggestion.showUsage');
+                }
+            });
+        }
+        return warnings;
+    }
+
+    static summary(): UsageSummary {
+        const data = UsageStore.read();
+        const today = dayKey(new Date());
+        const month = today.slice(0, 7);
+        const monthRows = new Map<string, UsageRow>();
+        for (const [day, rows] of Object.entries(data.days)) {
+            if (!day.startsWith(month)) {
+                continue;
+            }
+            for (const [key, row] of Object.entries(rows)) {
+                const total = monthRows.get(key);
+                monthRows.set(key, total ? { ...total, ...sumUsage([total, row]) } : row);
+            }
+        }
+        const byCost = (a: UsageRow, b: UsageRow) => b.cost - a.cost || (b.promptTokens + b.completionTokens) - (a.promptTokens + a.completionTokens);
+        return {
+            today: Object.values(data.days[today] ?? {}).sort(byCost),
+            month: [...monthRows.values()].sort(byCost),
+            recent: data.recent,
+            ...getBudgets()
+        };
+    }
+
+    static async reset(): Promise<void> {
+        await UsageStore.state?.update(UsageStore.storageKey, undefined);
+        UsageStore.changed.fire();
+    }
+
+    private static read(): UsageData {
+        const data = UsageStore.state?.get<UsageData>(UsageStore.storageKey);
+        return { days: data?.days ?? {}, recent: data?.recent ?? [], warned: data?.warned ?? {} };
+    }
+
+    // Warns once per day and once per month when the estimated cost reaches a budget
+    private static checkBudgets(data: UsageData, today: string): string[] {
+        const { dailyBudget, monthlyBudget } = getBudgets();
+        const month = today.slice(0, 7);
+        const warnings: string[] = [];
+        const todayCost = sumUsage(Object.values(data.days[today] ?? {})).cost;
+        if (dailyBudget > 0 && todayCost >= dailyBudget && data.warned.daily !== today) {
+            data.warned.daily = today;
+            warnings.push(`AI usage today is ${formatCost(todayCost)}, over the daily budget of ${formatCost(dailyBudget)}.`);
+        }
+        const monthCost = sumUsage(Object.entries(data.days).filter(([day]) => day.startsWith(month)).flatMap(([, rows]) => Object.values(rows))).cost;
+        if (monthlyBudget > 0 && monthCost >= monthlyBudget && data.warned.monthly !== month) {
+            data.warned.monthly = month;
+            warnings.push(`AI usage this month is ${formatCost(monthCost)}, over the monthly budget of ${formatCost(monthlyBudget)}.`);
+        }
+        return warnings;
+    }
+}
+
+// e.g. "Groq · llama-3.1-8b-instant"
+export function describeModel(row: { provider: string; model: string }): string {
+    return `${getProviderName(row.provider)} · ${row.model}`;
+}
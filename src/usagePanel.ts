@@ -0,0 +1,300 @@
+import * as vscode from 'vscode';
+import { describeModel, formatCost, sumUsage, UsageRow, UsageStore, UsageSummary, UsageTotals } from './usage';
+import { getContentSecurityPolicy, getNonce } from './webview';
+
+// Compact token count for the status bar, e.g. "12.3k"
+function formatTokens(tokens: number): string {
+    return tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+function describeTotals(totals: UsageTotals): string {
+    const unpriced = totals.unpriced > 0 ? ` (+${totals.unpriced} request${totals.unpriced === 1 ? '' : 's'} without a known price)` : '';
+    return `${totals.requests} request${totals.requests === 1 ? '' : 's'} · ${(totals.promptTokens + totals.completionTokens).toLocaleString()} tokens · ${formatCost(totals.cost)}${unpriced}`;
+}
+
+// What the page shows, already formatted; the page only lays it out
+function toView(summary: UsageSummary) {
+    const table = (title: string, rows: UsageRow[], budget: number) => {
+        const totals = sumUsage(rows);
+        return {
+            title,
+            total: describeTotals(totals),
+            budget: budget > 0
+                ? { text: `${formatCost(totals.cost)} of ${formatCost(budget)}`, percent: Math.min(100, Math.round(totals.cost / budget * 100)) }
+                : undefined,
+            rows: rows.map(row => ({
+                label: describeModel(row),
+                requests: row.requests.toLocaleString(),
+                promptTokens: row.promptTokens.toLocaleString(),
+                completionTokens: row.completionTokens.toLocaleString(),
+                cost: row.unpriced === row.requests ? 'no price' : formatCost(row.cost)
+            }))
+        };
+    };
+    return {
+        tables: [table('Today', summary.today, summary.dailyBudget), table('This month', summary.month, summary.monthlyBudget)],
+        recent: summary.recent.map(record => ({
+            timestamp: record.timestamp,
+            label: describeModel(record),
+            tokens: `${record.usage.estimated ? '~' : ''}${record.usage.promptTokens.toLocaleString()} + ${record.usage.completionTokens.toLocaleString()}`,
+            cost: record.cost === undefined ? 'no price' : formatCost(record.cost)
+        }))
+    };
+}
+
+//## Status bar item with today's usage
+export class UsageStatusBar implements vscode.Disposable {
+    private readonly subscriptions: vscode.Disposable[];
+    // Moves the totals on to the new day even when no request is made
+    private readonly timer: NodeJS.Timeout;
+
+    private constructor(private readonly item: vscode.StatusBarItem) {
+        item.command = 'codesuggestion.showUsage';
+        this.subscriptions = [
+            item,
+            UsageStore.onDidChange(() => this.update()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('codeAssistant.usage')) {
+                    this.update();
+                }
+            })
+        ];
+        this.timer = setInterval(() => this.update(), 5 * 60 * 1000);
+        this.update();
+    }
+
+    static create(): UsageStatusBar {
+        return new UsageStatusBar(vscode.window.createStatusBarItem('codeAssistant.usage', vscode.StatusBarAlignment.Right, 100));
+    }
+
+    private update(): void {
+        if (!vscode.workspace.getConfiguration('codeAssistant.usage').get<boolean>('showStatusBar', true)) {
+            this.item.hide();
+            return;
+        }
+        const summary = UsageStore.summary();
+        const today = sumUsage(summary.today);
+        const month = sumUsage(summary.month);
+        const overBudget = (summary.dailyBudget > 0 && today.cost >= summary.dailyBudget) || (summary.monthlyBudget > 0 && month.cost >= summary.monthlyBudget);
+
+        this.item.name = 'AI Usage';
+        this.item.text = `$(pulse) ${formatTokens(today.promptTokens + today.completionTokens)} · ${formatCost(today.cost)}`;
+        this.item.tooltip = [
+            `Today: ${describeTotals(today)}${summary.dailyBudget > 0 ? ` – budget ${formatCost(summary.dailyBudget)}` : ''}`,
+            `This month: ${describeTotals(month)}${summary.monthlyBudget > 0 ? ` – budget ${formatCost(summary.monthlyBudget)}` : ''}`,
+            'Costs are estimates based on codeAssistant.usage.prices. Click for details.'
+        ].join('\n');
+        this.item.backgroundColor = overBudget ? new vscode.ThemeColor('statusBarItem.warningBackground') : undefined;
+        this.item.show();
+    }
+
+    dispose(): void {
+        clearInterval(this.timer);
+        this.subscriptions.forEach(subscription => subscription.dispose());
+    }
+}
+
+//## Webview with daily and monthly usage per provider and model
+export class UsagePanel {
+    private static current: UsagePanel | undefined;
+    private ready = false;
+
+    private constructor(private readonly panel: vscode.WebviewPanel) {
+        const subscriptions = [
+            UsageStore.onDidChange(() => this.render()),
+            panel.webview.onDidReceiveMessage(async message => {
+                switch (message.command) {
+                    case 'ready':
+                        this.ready = true;
+                        this.render();
+                        break;
+                    case 'reset':
+                        vscode.commands.executeCommand('codesuggestion.resetUsage');
+                        break;
+                    case 'openSettings':
+                        vscode.commands.executeCommand('workbench.action.openSettings', 'codeAssistant.usage');
+                        break;
+                }
+            })
+        ];
+        panel.onDidDispose(() => {
+            subscriptions.forEach(subscription => subscription.dispose());
+            UsagePanel.current = undefined;
+        });
+        panel.webview.html = getUsageWebviewContent(panel.webview);
+    }
+
+    static show(): void {
+        if (UsagePanel.current) {
+            UsagePanel.current.panel.reveal();
+            return;
+        }
+        const panel = vscode.window.createWebviewPanel(
+            'codeAssistantUsage',
+            'AI Usage',
+            vscode.ViewColumn.Active,
+            { enableScripts: true, localResourceRoots: [] }
+        );
+        UsagePanel.current = new UsagePanel(panel);
+    }
+
+    private render(): void {
+        if (this.ready) {
+            this.panel.webview.postMessage({ command: 'renderUsage', ...toView(UsageStore.summary()) });
+        }
+    }
+}
+
+export function getUsageWebviewContent(webview: vscode.Webview): string {
+    const nonce = getNonce();
+
+    return `<!DOCTYPE html>
+    <html lang="en">
+    <head>
+        <meta charset="UTF-8">
+        <meta http-equiv="Content-Security-Policy" content="${getContentSecurityPolicy(webview, nonce)}">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>AI Usage</title>
+        <style nonce="${nonce}">
+            body {
+                font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif;
+                padding: 20px;
+                line-height: 1.5;
+                color: #e0e0e0;
+                background-color: #1e1e1e;
+            }
+            .section {
+                margin-bottom: 30px;
+                background: #2d2d2d;
+                border-radius: 8px;
+                padding: 20px;
+            }
+            table {
+                width: 100%;
+                border-collapse: collapse;
+                margin-top: 10px;
+            }
+            th, td {
+                text-align: left;
+                padding: 4px 8px;
+                border-bottom: 1px solid #3f3f46;
+            }
+            td.number, th.number {
+                text-align: right;
+            }
+            .budget {
+                height: 6px;
+                background: #374151;
+                border-radius: 3px;
+                margin: 6px 0 2px;
+            }
+            .budget-used {
+                height: 6px;
+                background: #10b981;
+                border-radius: 3px;
+            }
+            .budget-used.over {
+                background: #ef4444;
+            }
+            .hint {
+                color: #9ca3af;
+            }
+            .actions button {
+                background: #374151;
+                color: #e0e0e0;
+                border: 1px solid #4b5563;
+                border-radius: 4px;
+                padding: 4px 10px;
+                margin-right: 6px;
+                cursor: pointer;
+            }
+        </style>
+    </head>
+    <body>
+        <h1>AI Usage</h1>
+        <p class="hint">Token counts come from the providers where they report them (~ marks estimates). Costs are estimated from the price table in settings.</p>
+        <div class="actions">
+            <button id="settings-button">Prices &amp; Budgets</button>
+            <button id="reset-button">Reset</button>
+        </div>
+        <div id="content"></div>
+
+        <script nonce="${nonce}">
+            const vscode = acquireVsCodeApi();
+            const content = document.getElementById('content');
+
+            document.getElementById('settings-button').addEventListener('click', () => vscode.postMessage({ command: 'openSettings' }));
+            document.getElementById('reset-button').addEventListener('click', () => vscode.postMessage({ command: 'reset' }));
+
+            function element(tag, className, text) {
+                const node = document.createElement(tag);
+                if (className) {
+                    node.className = className;
+                }
+                if (text !== undefined && text !== null) {
+                    node.textContent = String(text);
+                }
+                return node;
+            }
+
+            function append(parent, ...children) {
+                for (const child of children) {
+                    parent.appendChild(child);
+                }
+                return parent;
+            }
+
+            // columns: [heading, key, numeric]
+            function table(columns, rows) {
+                const head = append(element('tr'), ...columns.map(([heading, , numeric]) => element('th', numeric ? 'number' : '', heading)));
+                const body = rows.map(row => append(element('tr'), ...columns.map(([, key, numeric]) => element('td', numeric ? 'number' : '', row[key]))));
+                return append(element('table'), append(element('thead'), head), append(element('tbody'), ...body));
+            }
+
+            function renderTable(usage) {
+                const section = append(element('div', 'section'), element('h2', '', usage.title), element('p', '', usage.total));
+                if (usage.budget) {
+                    const used = element('div', usage.budget.percent >= 100 ? 'budget-used over' : 'budget-used');
+                    used.style.width = Math.min(Math.max(Number(usage.budget.percent) || 0, 0), 100) + '%';
+                    append(section, append(element('div', 'budget'), used), element('p', 'hint', 'Budget: ' + usage.budget.text));
+                }
+                if (usage.rows.length === 0) {
+                    section.appendChild(element('p', 'hint', 'No requests yet.'));
+                    return section;
+                }
+                return append(section, table([
+                    ['Provider · Model', 'label'],
+                    ['Requests', 'requests', true],
+                    ['Prompt tokens', 'promptTokens', true],
+                    ['Reply tokens', 'completionTokens', true],
+                    ['Cost', 'cost', true]
+                ], usage.rows));
+            }
+
+            function renderRecent(recent) {
+                const section = append(element('div', 'section'), element('h2', '', 'Recent requests'));
+                if (recent.length === 0) {
+                    section.appendChild(element('p', 'hint', 'No requests yet.'));
+                    return section;
+                }
+                const rows = recent.map(record => ({ ...record, time: new Date(record.timestamp).toLocaleString() }));
+                return append(section, table([
+                    ['Time', 'time'],
+                    ['Provider · Model', 'label'],
+                    ['Prompt + reply tokens', 'tokens', true],
+                    ['Cost', 'cost', true]
+                ], rows));
+            }
+
+            window.addEventListener('message', event => {
+                const message = event.data;
+                if (message.command === 'renderUsage') {
+                    content.replaceChildren(...message.tables.map(renderTable), renderRecent(message.recent));
+                }
+            });
+
+            vscode.postMessage({ command: 'ready' });
+        </script>
+    </body>
+    </html>`;
+}
@@ -0,0 +1,29 @@
+import * as vscode from 'vscode';
+import { randomBytes } from 'crypto';
+
+export function getNonce(): string {
+    return randomBytes(16).toString('hex');
+}
+
+// Scripts and styles are limited to nonce-tagged blocks and files shipped with the extension;
+// nothing is fetched from the network. Mermaid writes <style> elements and style attributes
+// into the SVGs it renders, so diagram views opt into inline styles (scripts stay nonce-only).
+export function getContentSecurityPolicy(webview: vscode.Webview, nonce: string, options: { inlineStyles?: boolean } = {}): string {
+    const styleSource = options.inlineStyles ? `'unsafe-inline'` : `'nonce-${nonce}'`;
+    return [
+        `default-src 'none'`,
+        `img-src ${webview.cspSource} data:`,
+        `font-src ${webview.cspSource}`,
+        `style-src ${webview.cspSource} ${styleSource}`,
+        `script-src 'nonce-${nonce}'`
+    ].join('; ');
+}
+
+// Browser builds of our runtime dependencies are loaded straight from the packaged node_modules
+export function getVendorUri(webview: vscode.Webview, extensionUri: vscode.Uri, ...pathSegments: string[]): vscode.Uri {
+    return webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, 'node_modules', ...pathSegments));
+}
+
+export function getVendorRoot(extensionUri: vscode.Uri): vscode.Uri {
+    return vscode.Uri.joinPath(extensionUri, 'node_modules');
+}
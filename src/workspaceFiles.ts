@@ -0,0 +1,120 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+// Source files considered by workspace-wide features
+export const SOURCE_FILE_GLOB = '**/*.{ts,tsx,js,jsx,mjs,cjs,py,java,kt,scala,cs,go,rs,rb,php,swift,c,h,cc,cpp,hpp,vue,svelte}';
+
+// Never worth sending to a model, whether or not a .gitignore lists them
+const ALWAYS_EXCLUDED = ['**/node_modules/**', '**/.git/**', '**/out/**', '**/dist/**', '**/build/**', '**/coverage/**', '**/__pycache__/**', '**/*.min.js'];
+
+/**
+ * Turns the lines of a .gitignore in `directory` (relative to the workspace folder, '' for its
+ * root) into glob patterns. Negated patterns ("!keep.js") cannot be expressed as an exclude and are
+ * skipped, like patterns that contain braces or commas.
+ */
+function gitignoreToGlobs(content: string, directory: string): string[] {
+    const prefix = directory ? `${directory}/` : '';
+    const globs: string[] = [];
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        // Braces and commas would break the combined {a,b,c} exclude pattern
+        if (!line || line.startsWith('#') || line.startsWith('!') || /[{},]/.test(line)) {
+            continue;
+        }
+        const pattern = line.replace(/\/+$/, '');
+        // A slash anywhere but at the end anchors the pattern to the .gitignore's directory
+        const anchored = pattern.includes('/');
+        const base = anchored ? `${prefix}${pattern.replace(/^\//, '')}` : `${prefix}**/${pattern}`;
+        globs.push(base, `${base}/**`);
+    }
+    return globs;
+}
+
+async function readGitignoreGlobs(folder: vscode.WorkspaceFolder): Promise<string[]> {
+    const gitignores = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, '**/.gitignore'), '**/node_modules/**');
+    const globs: string[] = [];
+    for (const uri of gitignores) {
+        const directory = path.posix.relative(folder.uri.path, vscode.Uri.joinPath(uri, '..').path);
+        const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+        globs.push(...gitignoreToGlobs(content, directory));
+    }
+    return globs;
+}
+
+export interface WorkspaceFileOptions {
+    maxFiles: number;
+    // Larger files are skipped
+    maxFileSizeBytes: number;
+}
+
+export interface WorkspaceFiles {
+    files: vscode.Uri[];
+    // Files left out because of the size limit or because maxFiles was reached
+    skipped: vscode.Uri[];
+}
+
+/**
+ * Lists the source files below `scope` (a folder; the whole workspace when undefined),
+ * leaving out what .gitignore files exclude, build output and oversized files.
+ */
+export async function findWorkspaceFiles(scope: vscode.Uri | undefined, options: WorkspaceFileOptions): Promise<WorkspaceFiles> {
+    const folders = scope
+        ? [vscode.workspace.getWorkspaceFolder(scope)].filter((folder): folder is vscode.WorkspaceFolder => !!folder)
+        : vscode.workspace.workspaceFolders ?? [];
+
+    const candidates: vscode.Uri[] = [];
+    for (const folder of folders) {
+        const excludes = [...ALWAYS_EXCLUDED, ...await readGitignoreGlobs(folder)];
+        const include = new vscode.RelativePattern(scope ?? folder.uri, SOURCE_FILE_GLOB);
+        const exclude = new vscode.RelativePattern(folder, `{${excludes.join(',')}}`);
+        candidates.push(...await vscode.workspace.findFiles(include, exclude));
+    }
+    // Folders outside the workspace have no .gitignore handling, but can still be analyzed
+    if (scope && folders.length === 0) {
+        candidates.push(...await vscode.workspace.findFiles(new vscode.RelativePattern(scope, SOURCE_FILE_GLOB), `{${ALWAYS_EXCLUDED.join(',')}}`));
+    }
+    candidates.sort((a, b) => a.path.localeCompare(b.path));
+
+    const files: vscode.Uri[] = [];
+    const skipped: vscode.Uri[] = [];
+    for (const uri of candidates) {
+        const { size } = await vscode.workspace.fs.stat(uri);
+        if (size > options.maxFileSizeBytes || files.length >= options.maxFiles) {
+            skipped.push(uri);
+        } else {
+            files.push(uri);
+        }
+    }
+    return { files, skipped };
+}
+
+// Glob characters in a file name have to match literally
+function escapeGlob(text: string): string {
+    return text.replace(/[*?[\]{}]/g, '[$&]');
+}
+
+/**
+ * The files among `uris` that findWorkspaceFiles would consider: inside a workspace folder and not
+ * excluded by .gitignore files or the build output rules. Neither the file type nor the size is
+ * checked.
+ */
+export async function filterWorkspaceFiles(uris: vscode.Uri[]): Promise<vscode.Uri[]> {
+    const excludes = new Map<string, vscode.RelativePattern>();
+    const included: vscode.Uri[] = [];
+    for (const uri of uris) {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        if (!folder) {
+            continue;
+        }
+        let exclude = excludes.get(folder.uri.toString());
+        if (!exclude) {
+            exclude = new vscode.RelativePattern(folder, `{${[...ALWAYS_EXCLUDED, ...await readGitignoreGlobs(folder)].join(',')}}`);
+            excludes.set(folder.uri.toString(), exclude);
+        }
+        const relative = path.posix.relative(folder.uri.path, uri.path);
+        if ((await vscode.workspace.findFiles(new vscode.RelativePattern(folder, escapeGlob(relative)), exclude, 1)).length > 0) {
+            included.push(uri);
+        }
+    }
+    return included;
+}
@@ -0,0 +1,416 @@
+import * as vscode from 'vscode';
+import { fenceFor } from './markdown';
+import { ChatMessage, isEmbeddingProvider, LLMFactory, OllamaProvider, OpenAIProvider } from './providers';
+import { filterWorkspaceFiles, findWorkspaceFiles, SOURCE_FILE_GLOB } from './workspaceFiles';
+
+// Snippets are windows of this many lines, overlapping so that code at a boundary is found whole
+const SNIPPET_LINES = 40;
+const SNIPPET_OVERLAP = 10;
+
+// Words that say nothing about which code is meant
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'if', 'in', 'is', 'it',
+    'me', 'my', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'this', 'to', 'we', 'what', 'when', 'where', 'which', 'why',
+    'with', 'you', 'your', 'const', 'let', 'var', 'return', 'function', 'import', 'export', 'new', 'else', 'true', 'false', 'null', 'undefined'
+]);
+
+/**
+ * Splits text into lower-case search terms. Identifiers count as a whole and by their parts, so
+ * "getProviderName" matches "provider name" as well as "getProviderName".
+ */
+export function tokenize(text: string): string[] {
+    const terms: string[] = [];
+    for (const word of text.match(/[A-Za-z_$][A-Za-z0-9_$]*|\d+/g) ?? []) {
+        const parts = word.split(/[_$]+|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/).filter(Boolean);
+        for (const term of parts.length > 1 ? [word, ...parts] : [word]) {
+            const lower = term.toLowerCase();
+            if (lower.length > 1 && !STOP_WORDS.has(lower)) {
+                terms.push(lower);
+            }
+        }
+    }
+    return terms;
+}
+
+//## BM25 ranking over in-memory documents
+export class Bm25Index<T> {
+    private static readonly k1 = 1.2;
+    private static readonly b = 0.75;
+    private readonly documents = new Map<string, { value: T; length: number; frequencies: Map<string, number> }>();
+    // Term -> ids of the documents containing it
+    private readonly postings = new Map<string, Set<string>>();
+    private totalLength = 0;
+
+    get size(): number {
+        return this.documents.size;
+    }
+
+    // Adds or replaces the document `id`
+    set(id: string, terms: string[], value: T): void {
+        this.delete(id);
+        const frequencies = new Map<string, number>();
+        for (const term of terms) {
+            frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+        }
+        for (const term of frequencies.keys()) {
+            let ids = this.postings.get(term);
+            if (!ids) {
+                ids = new Set();
+                this.postings.set(term, ids);
+            }
+            ids.add(id);
+        }
+        this.documents.set(id, { value, length: terms.length, frequencies });
+        this.totalLength += terms.length;
+    }
+
+    delete(id: string): void {
+        const document = this.documents.get(id);
+        if (!document) {
+            return;
+        }
+        for (const term of document.frequencies.keys()) {
+            const ids = this.postings.get(term);
+            ids?.delete(id);
+            if (ids?.size === 0) {
+                this.postings.delete(term);
+            }
+        }
+        this.documents.delete(id);
+        this.totalLength -= document.length;
+    }
+
+    clear(): void {
+        this.documents.clear();
+        this.postings.clear();
+        this.totalLength = 0;
+    }
+
+    // The best `limit` documents for the query terms, highest score first; documents sharing no term are left out
+    search(terms: string[], limit: number): { value: T; score: number }[] {
+        const count = this.documents.size;
+        const averageLength = count > 0 ? this.totalLength / count : 0;
+        const scores = new Map<string, number>();
+        for (const term of new Set(terms)) {
+            const ids = this.postings.get(term);
+            if (!ids) {
+                continue;
+            }
+            const idf = Math.log(1 + (count - ids.size + 0.5) / (ids.size + 0.5));
+            for (const id of ids) {
+                const document = this.documents.get(id)!;
+                const frequency = document.frequencies.get(term) ?? 0;
+                const normalized = frequency * (Bm25Index.k1 + 1)
+                    / (frequency + Bm25Index.k1 * (1 - Bm25Index.b + Bm25Index.b * document.length / averageLength));
+                scores.set(id, (scores.get(id) ?? 0) + idf * normalized);
+            }
+        }
+        return [...scores.entries()]
+            .sort(([, a], [, b]) => b - a)
+            .slice(0, limit)
+            .map(([id, score]) => ({ value: this.documents.get(id)!.value, score }));
+    }
+}
+
+//## Index of the workspace's source files, kept current by a file watcher
+
+export interface WorkspaceSnippet {
+    uri: vscode.Uri;
+    // Zero-based, inclusive
+    startLine: number;
+    endLine: number;
+    text: string;
+}
+
+export function getContextSettings() {
+    const config = vscode.workspace.getConfiguration('codeAssistant.context');
+    return {
+        enabled: config.get<boolean>('enabled', false),
+        maxSnippets: Math.max(1, config.get<number>('maxSnippets', 5)),
+        maxFiles: config.get<number>('maxFiles', 1000),
+        maxFileSizeBytes: config.get<number>('maxFileSizeKb', 128) * 1024,
+        embeddings: config.get<'off' | 'ollama' | 'gpt'>('embeddings', 'off'),
+        embeddingModel: config.get<string>('embeddingModel', '').trim()
+    };
+}
+
+const SOURCE_EXTENSIONS = new Set(SOURCE_FILE_GLOB.slice(SOURCE_FILE_GLOB.indexOf('{') + 1, -1).split(','));
+
+// Cheap check on watcher events; the exclusion rules are applied by findWorkspaceFiles
+function mayBeSourceFile(uri: vscode.Uri): boolean {
+    const extension = uri.path.slice(uri.path.lastIndexOf('.') + 1);
+    return SOURCE_EXTENSIONS.has(extension) && !/\/(node_modules|\.git|out|dist|build)\//.test(uri.path);
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export class WorkspaceIndex implements vscode.Disposable {
+    private readonly index = new Bm25Index<WorkspaceSnippet>();
+    // Snippet ids of each indexed file, by URI
+    private readonly files = new Map<string, string[]>();
+    // Embedding vectors by provider, model and snippet id; dropped when a file is re-indexed
+    private readonly vectors = new Map<string, number[]>();
+    private readonly subscriptions: vscode.Disposable[] = [];
+    private readonly pendingFiles = new Set<string>();
+    private readonly pendingNewFiles = new Set<string>();
+    private pendingRescan = false;
+    private updateTimer: NodeJS.Timeout | undefined;
+    private building: Promise<void> = Promise.resolve();
+
+    private constructor() {
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+        this.subscriptions.push(
+            watcher,
+            // Changed files are re-read if they are indexed and new ones are checked against the
+            // exclusion rules; a changed .gitignore makes the whole file list be looked up again
+            watcher.onDidChange(uri => uri.path.endsWith('/.gitignore') ? this.scheduleRescan() : this.scheduleFile(uri)),
+            watcher.onDidCreate(uri => uri.path.endsWith('/.gitignore') ? this.scheduleRescan() : mayBeSourceFile(uri) && this.scheduleNewFile(uri)),
+            watcher.onDidDelete(uri => this.removeBelow(uri)),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.rebuild()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('codeAssistant.context.maxFiles') || event.affectsConfiguration('codeAssistant.context.maxFileSizeKb')) {
+                    this.rebuild();
+                }
+            })
+        );
+    }
+
+    get fileCount(): number {
+        return this.files.size;
+    }
+
+    static create(): WorkspaceIndex {
+        const workspaceIndex = new WorkspaceIndex();
+        workspaceIndex.rebuild();
+        return workspaceIndex;
+    }
+
+    // Indexes the workspace from scratch; searches wait until it is done
+    rebuild(): Promise<void> {
+        this.building = this.building.then(() => vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Window, title: 'Indexing workspace for AI chat' },
+            async () => {
+                this.index.clear();
+                this.files.clear();
+                this.vectors.clear();
+                await this.rescan();
+            }
+        )).catch(error => console.error('Indexing the workspace failed:', error));
+        return this.building;
+    }
+
+    /**
+     * The snippets most relevant to `query`, best first. With embeddings configured, the best BM25
+     * matches are re-ranked by semantic similarity; if that fails the BM25 order is kept.
+     */
+    async search(query: string, limit: number): Promise<WorkspaceSnippet[]> {
+        await this.building;
+        const { embeddings } = getContextSettings();
+        const candidates = this.index.search(tokenize(query), embeddings === 'off' ? limit : limit * 4);
+        // Matches far behind the best one are mostly shared common words
+        const relevant = candidates.filter(candidate => candidate.score >= candidates[0].score * 0.3);
+        if (embeddings === 'off' || relevant.length <= 1) {
+            return relevant.slice(0, limit).map(candidate => candidate.value);
+        }
+        try {
+            return (await this.rerank(query, relevant.map(candidate => candidate.value))).slice(0, limit);
+        } catch (error) {
+            console.warn('Re-ranking workspace snippets with embeddings failed:', error);
+            return relevant.slice(0, limit).map(candidate => candidate.value);
+        }
+    }
+
+    private async rerank(query: string, snippets: WorkspaceSnippet[]): Promise<WorkspaceSnippet[]> {
+        const { embeddings, embeddingModel } = getContextSettings();
+        const provider = LLMFactory.getProvider(embeddings);
+        if (!isEmbeddingProvider(provider)) {
+            return snippets;
+        }
+        const model = embeddingModel || (embeddings === 'ollama' ? OllamaProvider.defaultEmbeddingModel : OpenAIProvider.defaultEmbeddingModel);
+        const key = (snippet: WorkspaceSnippet) => `${embeddings}/${model}/${WorkspaceIndex.snippetId(snippet)}`;
+        const missing = snippets.filter(snippet => !this.vectors.has(key(snippet)));
+        const [queryVector, ...vectors] = await provider.embed([query, ...missing.map(snippet => snippet.text)], model);
+        missing.forEach((snippet, i) => this.vectors.set(key(snippet), vectors[i]));
+        return snippets
+            .map(snippet => ({ snippet, similarity: cosineSimilarity(queryVector, this.vectors.get(key(snippet)) ?? []) }))
+            .sort((a, b) => b.similarity - a.similarity)
+            .map(({ snippet }) => snippet);
+    }
+
+    private static snippetId(snippet: WorkspaceSnippet): string {
+        return `${snippet.uri.toString()}#${snippet.startLine}`;
+    }
+
+    // Adds files that are now listed and drops those that no longer are
+    private async rescan(): Promise<void> {
+        const { maxFiles, maxFileSizeBytes } = getContextSettings();
+        const { files } = await findWorkspaceFiles(undefined, { maxFiles, maxFileSizeBytes });
+        const listed = new Set(files.map(uri => uri.toString()));
+        for (const uri of [...this.files.keys()]) {
+            if (!listed.has(uri)) {
+                this.remove(uri);
+            }
+        }
+        for (const uri of files) {
+            if (!this.files.has(uri.toString())) {
+                await this.indexFile(uri);
+            }
+        }
+    }
+
+    private async indexFile(uri: vscode.Uri): Promise<void> {
+        let content: string;
+        try {
+            content = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+        } catch {
+            this.remove(uri.toString());
+            return;
+        }
+        this.remove(uri.toString());
+        // The path is searchable too, so "the providers module" finds src/providers.ts
+        const pathTerms = tokenize(vscode.workspace.asRelativePath(uri));
+        const lines = content.split(/\r?\n/);
+        const ids: string[] = [];
+        for (let start = 0; start < lines.length; start += SNIPPET_LINES - SNIPPET_OVERLAP) {
+            const end = Math.min(start + SNIPPET_LINES, lines.length) - 1;
+            const text = lines.slice(start, end + 1).join('\n');
+            if (text.trim()) {
+                const snippet = { uri, startLine: start, endLine: end, text };
+                const id = WorkspaceIndex.snippetId(snippet);
+                this.index.set(id, [...pathTerms, ...tokenize(text)], snippet);
+                ids.push(id);
+            }
+            if (end === lines.length - 1) {
+                break;
+            }
+        }
+        this.files.set(uri.toString(), ids);
+    }
+
+    // Re-reads a changed or created file, or drops it once it has grown past the size limit
+    private async updateFile(uri: vscode.Uri): Promise<void> {
+        const { maxFileSizeBytes } = getContextSettings();
+        try {
+            if ((await vscode.workspace.fs.stat(uri)).size > maxFileSizeBytes) {
+                this.remove(uri.toString());
+                return;
+            }
+        } catch {
+            this.remove(uri.toString());
+            return;
+        }
+        await this.indexFile(uri);
+    }
+
+    // Indexes the new files that a rescan would list, while there is room under maxFiles
+    private async addNewFiles(uris: vscode.Uri[]): Promise<void> {
+        const { maxFiles } = getContextSettings();
+        for (const uri of await filterWorkspaceFiles(uris)) {
+            if (this.files.size >= maxFiles) {
+                break;
+            }
+            await this.updateFile(uri);
+        }
+    }
+
+    private remove(uri: string): void {
+        for (const id of this.files.get(uri) ?? []) {
+            this.index.delete(id);
+            for (const key of [...this.vectors.keys()]) {
+                if (key.endsWith(`/${id}`)) {
+                    this.vectors.delete(key);
+                }
+            }
+        }
+        this.files.delete(uri);
+    }
+
+    // A deleted folder takes its files with it
+    private removeBelow(uri: vscode.Uri): void {
+        const prefix = `${uri.toString()}/`;
+        for (const file of [...this.files.keys()]) {
+            if (file === uri.toString() || file.startsWith(prefix)) {
+                this.remove(file);
+            }
+        }
+    }
+
+    private scheduleFile(uri: vscode.Uri): void {
+        if (this.files.has(uri.toString())) {
+            this.pendingFiles.add(uri.toString());
+            this.scheduleUpdate();
+        }
+    }
+
+    private scheduleNewFile(uri: vscode.Uri): void {
+        this.pendingNewFiles.add(uri.toString());
+        this.scheduleUpdate();
+    }
+
+    private scheduleRescan(): void {
+        this.pendingRescan = true;
+        this.scheduleUpdate();
+    }
+
+    // Saves and checkouts touch many files at once; they are re-read together after a pause
+    private scheduleUpdate(): void {
+        clearTimeout(this.updateTimer);
+        this.updateTimer = setTimeout(() => {
+            const files = [...this.pendingFiles].map(uri => vscode.Uri.parse(uri));
+            const newFiles = [...this.pendingNewFiles].map(uri => vscode.Uri.parse(uri));
+            const rescan = this.pendingRescan;
+            this.pendingFiles.clear();
+            this.pendingNewFiles.clear();
+            this.pendingRescan = false;
+            this.building = this.building.then(async () => {
+                for (const uri of files) {
+                    await this.updateFile(uri);
+                }
+                if (rescan) {
+                    await this.rescan();
+                } else if (newFiles.length > 0) {
+                    await this.addNewFiles(newFiles);
+                }
+            }).catch(error => console.error('Updating the workspace index failed:', error));
+        }, 1000);
+    }
+
+    dispose(): void {
+        clearTimeout(this.updateTimer);
+        this.subscriptions.forEach(subscription => subscription.dispose());
+    }
+}
+
+/**
+ * The user's turn as sent to the model: the numbered snippets, then the question. Only this request
+ * carries them; the saved conversation keeps what the user typed.
+ */
+export function withWorkspaceContext(prompt: string, snippets: WorkspaceSnippet[]): ChatMessage {
+    if (snippets.length === 0) {
+        return { role: 'user', content: prompt };
+    }
+    const excerpts = snippets.map((snippet, i) => {
+        const fence = fenceFor(snippet.text);
+        const location = `${vscode.workspace.asRelativePath(snippet.uri)}, lines ${snippet.startLine + 1}-${snippet.endLine + 1}`;
+        return `[${i + 1}] ${location}\n${fence}\n${snippet.text}\n${fence}`;
+    });
+    return {
+        role: 'user',
+        content: `Excerpts from my workspace that may be relevant (they can be incomplete or unrelated; cite them as [1], [2], ... when you use them):
+
+${excerpts.join('\n\n')}
+
+My question:
+${prompt}`
+    };
+}